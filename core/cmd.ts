@@ -1,16 +1,132 @@
-import type { DenzaiErr } from "./error.ts";
-import { Ok, type Result } from "./funcs.ts";
-import { makeCompArgs } from "./mod.ts";
-import type { CmdApi, CompArgs, Ctx, LogFn, Schema } from "./types.ts";
+import { Backend } from "../backend/backend.ts";
+import { DenzaiErr } from "./error.ts";
+import {
+	checkRequired,
+	flagDefaults,
+	flagScope,
+	mergeFlags,
+	parseFlags,
+} from "./flags.ts";
+import { formatCompletions, makeCompArgs } from "./completions.ts";
+import { terminalWidth } from "./futils.ts";
+import { Err, isSemver, Ok, type Result, suggest } from "./funcs.ts";
+import {
+	type FileLogOptions,
+	fileLogSink,
+	isLevelEnabled,
+	logLevelEnv,
+	logLevelFlag,
+	type LogThreshold,
+	parseLogThreshold,
+	prettyLogSink,
+} from "./log.ts";
+import { outputFlag, outputFormat, renderOutput } from "./output.ts";
+import { paramAt, parseParams } from "./params.ts";
+import { findPlugin, listPlugins, pluginCmd } from "./plugin.ts";
+import {
+	abortReason,
+	listenForInterrupt,
+	settleWithin,
+	timeoutDuration,
+	timeoutErr,
+	timeoutFlag,
+} from "./signal.ts";
+import { denoStdin } from "./stdin.ts";
+import type {
+	CmdApi,
+	CmdEnv,
+	CmdStdin,
+	CompArgs,
+	CompItem,
+	CompShell,
+	Ctx,
+	Flag,
+	LogFn,
+	LogLevel,
+	Schema,
+} from "./types.ts";
+import { usageLine } from "./usage.ts";
+import { helpText, isHelpRequest, withHelpFlag } from "./cmd/help.ts";
+import {
+	formatVersion,
+	isVersionRequest,
+	versionFlag,
+	versionInfo,
+	withVersionFlag,
+} from "./cmd/version.ts";
 
 export interface RunCmdOptions {
+	/**
+	 * Arguments used by `run` when not completing. Defaults to `Deno.args`
+	 */
+	args?: string[];
+
 	/**
 	 * Enable completion detection
 	 */
 	detectComp?: boolean;
+
+	/**
+	 * Shell the completions are printed for. Defaults to "bash"
+	 */
+	compShell?: CompShell;
+
+	/**
+	 * Environment variables exposed as `ctx.env` and used to detect
+	 * completion requests. Defaults to `Deno.env`
+	 */
+	env?: CmdEnv;
+
 	print?: (value: string) => Promise<void>;
 	printErr?: (value: string) => Promise<void>;
+
+	/**
+	 * Receives the log entries at or above the log level. Defaults to
+	 * [prettyLogSink] on `printErr`
+	 */
 	log?: LogFn;
+
+	/**
+	 * Overrides the log level given with [logLevelFlag] or the environment
+	 * variable named by [logLevelEnv]. Those default to "warn"
+	 */
+	logLevel?: LogThreshold;
+
+	/**
+	 * Also append log entries to a file in the `state` store of the backend
+	 */
+	logFile?: boolean | FileLogOptions;
+
+	/**
+	 * Input exposed as `ctx.stdin`. Defaults to the stdin of the process
+	 */
+	stdin?: CmdStdin;
+
+	/**
+	 * Renders errors caused by invalid arguments or flags. Defaults to
+	 * [defaultRenderErr]
+	 */
+	renderErr?: (ctx: Ctx, err: DenzaiErr) => Promise<void>;
+
+	/**
+	 * Backend exposed as `ctx.backend`, or a factory for one. The factory is
+	 * only called when a command asks for the backend. Defaults to
+	 * `Backend.detect`.
+	 */
+	backend?: Backend | (() => Backend | Promise<Backend>);
+
+	/**
+	 * Milliseconds `do` gets to return once `ctx.signal` is aborted. After
+	 * that the command fails with the abort reason even though `do` may
+	 * still be running. Defaults to 1000
+	 */
+	abortGrace?: number;
+
+	/**
+	 * Signal exposed as `ctx.signal`. When missing `run` aborts one on SIGINT
+	 * or SIGTERM, see [listenForInterrupt].
+	 */
+	signal?: AbortSignal;
 }
 
 export const defaultPrintFn: Ctx["print"] = async (value: string) => {
@@ -25,6 +141,10 @@ export const defaultPrintErrFn: Ctx["print"] = async (value: string) => {
 	await Deno.stderr.write(data);
 };
 
+/**
+ * Writes log entries as JSON lines to stderr, keeping stdout for the output
+ * of the command.
+ */
 export const defaultLogFn: Ctx["log"] = async ({ context, message, level }) => {
 	const obj = {
 		now: new Date(),
@@ -35,13 +155,56 @@ export const defaultLogFn: Ctx["log"] = async ({ context, message, level }) => {
 	const value = JSON.stringify(obj);
 	const encoder = new TextEncoder();
 	const data = encoder.encode(value + "\n");
-	await Deno.stdout.write(data);
+	await Deno.stderr.write(data);
 };
 
+/**
+ * Prints the error followed by the usage line, when the error has one, to
+ * `ctx.printErr`.
+ */
+export async function defaultRenderErr(
+	ctx: Ctx,
+	err: DenzaiErr,
+): Promise<void> {
+	await ctx.printErr(`${err.message}\n`);
+	const context = err.context as { usage?: unknown } | undefined;
+	if (typeof context?.usage === "string") {
+		await ctx.printErr(`${context.usage}\n`);
+	} else if (err.code === "INVALID_FLAG") {
+		await ctx.printErr(`${usageLine(ctx.path)}\n`);
+	}
+}
+
 export const nullLogFn: Ctx["log"] = async () => {
 	return;
 };
 
+/**
+ * Creates the backend on the first call and hands out the same one after.
+ */
+function lazyBackend(backend?: RunCmdOptions["backend"]): Ctx["backend"] {
+	let cached: Promise<Backend> | null = null;
+	return () => {
+		cached ??= (async () => {
+			if (backend instanceof Backend) {
+				return backend;
+			}
+			if (backend) {
+				return await backend();
+			}
+			const detected = await Backend.detect();
+			if (detected === null) {
+				throw new DenzaiErr({
+					code: "INVARIANT",
+					message: "no backend for this environment",
+				});
+			}
+			return detected;
+		})();
+		return cached;
+	};
+}
+
 type ContextLog = {
 	name: string;
 	alias: string[];
@@ -67,18 +230,95 @@ function transformContext(ctx: Ctx) {
 	};
 }
 
+/**
+ * Logs [message] with the serialized context. The context is only built when
+ * trace logging is on as it walks the whole tree.
+ */
+async function traceCtx(ctx: Ctx, message: string): Promise<void> {
+	if (ctx.logEnabled("trace")) {
+		await ctx.log({
+			level: "trace",
+			message,
+			context: transformContext(ctx),
+		});
+	}
+}
+
+function invalidArgs(
+	ctx: Ctx,
+	constraint: keyof Schema,
+	message: string,
+): DenzaiErr {
+	return new DenzaiErr({
+		code: "INVALID_ARGS",
+		message,
+		context: {
+			constraint,
+			expected: ctx.cmd.schema[constraint],
+			args: ctx.cmdArgs,
+			usage: usageLine(ctx.path),
+		},
+	});
+}
+
+/**
+ * Checks the arguments given to the command against its [Schema].
+ */
+export function validateArgs(ctx: Ctx): DenzaiErr | null {
+	const { regxArgs, maxArgs, minArgs, exact } = ctx.cmd.schema;
+	const count = ctx.cmdArgs.length;
+	if (exact !== undefined && count !== exact) {
+		return invalidArgs(
+			ctx,
+			"exact",
+			`expected exactly ${exact} argument(s), got ${count}`,
+		);
+	}
+	if (minArgs !== undefined && count < minArgs) {
+		return invalidArgs(
+			ctx,
+			"minArgs",
+			`expected at least ${minArgs} argument(s), got ${count}`,
+		);
+	}
+	if (maxArgs !== undefined && count > maxArgs) {
+		return invalidArgs(
+			ctx,
+			"maxArgs",
+			`expected at most ${maxArgs} argument(s), got ${count}`,
+		);
+	}
+	if (regxArgs && !regxArgs.test(ctx.cmdArgs.join(" "))) {
+		return invalidArgs(
+			ctx,
+			"regxArgs",
+			`arguments do not match ${regxArgs}`,
+		);
+	}
+	return null;
+}
+
 export async function defaultCmdComplete(
 	ctx: Ctx,
 	compArgs: CompArgs,
 ): Promise<string[]> {
-	return ctx.cmd.children.map((a) => a.name);
+	const children = ctx.cmd.children.filter((a) => !a.hidden);
+	if (ctx.cmd.completeAliases) {
+		return children.flatMap((a) => [a.name, ...a.alias]);
+	}
+	return children.map((a) => a.name);
 }
 
+/**
+ * Completes the choices of the enum param at the current position.
+ */
 export async function defaultComplete(
 	ctx: Ctx,
 	compArgs: CompArgs,
 ): Promise<string[]> {
-	return [];
+	const params = ctx.cmd.schema.params ?? [];
+	const param = paramAt(params, Math.max(ctx.cmdArgs.length - 1, 0));
+	return [...(param?.choices ?? [])];
 }
 
 export interface BashCompArgsOptions {
@@ -87,11 +327,15 @@ export interface BashCompArgsOptions {
 	 * An example is during testing as the root command is not known.
 	 */
 	stripCmd?: boolean;
+
+	/** Defaults to `Deno.env` */
+	env?: CmdEnv;
 }
 export function bashCompArgs(options?: BashCompArgsOptions): CompArgs | null {
-	const cword = Number(Deno.env.get("COMP_CWORD") ?? null);
-	const line = Deno.env.get("COMP_LINE") ?? null;
-	const point = Number(Deno.env.get("COMP_POINT") ?? null);
+	const env = options?.env ?? Deno.env;
+	const cword = Number(env.get("COMP_CWORD") ?? null);
+	const line = env.get("COMP_LINE") ?? null;
+	const point = Number(env.get("COMP_POINT") ?? null);
 	if (cword === null || line == null || point === null) {
 		return null;
 	}
@@ -109,16 +353,106 @@ export function bashCompArgs(options?: BashCompArgsOptions): CompArgs | null {
 	return { cword, line, point, args };
 }
 
+export interface ZshCompArgsOptions {
+	/**
+	 * Removes the root command and adjusts the values. See
+	 * [BashCompArgsOptions]
+	 */
+	stripCmd?: boolean;
+
+	/** Defaults to `Deno.env` */
+	env?: CmdEnv;
+}
+
+/**
+ * Reads the completion request sent by the script from [zshCompScript].
+ * `ZSH_COMP_WORDS` holds `$words`, one per line so that words with spaces
+ * stay whole, and `ZSH_COMP_CURRENT` holds `$CURRENT`, the 1 based index of
+ * the word being completed.
+ */
+export function zshCompArgs(options?: ZshCompArgsOptions): CompArgs | null {
+	const env = options?.env ?? Deno.env;
+	const words = env.get("ZSH_COMP_WORDS") ?? null;
+	const current = Number(env.get("ZSH_COMP_CURRENT") ?? NaN);
+	if (words === null || Number.isNaN(current)) {
+		return null;
+	}
+	// Words after the cursor don't matter for completion
+	const args = words.split("\n").slice(0, Math.max(current, 1));
+	while (args.length < current) {
+		args.push("");
+	}
+	const stripCmd = options?.stripCmd ?? true;
+	const rest = stripCmd ? args.slice(1) : args;
+	const line = rest.join(" ");
+	return {
+		cword: rest.length - 1,
+		line,
+		point: line.length,
+		args: rest,
+	};
+}
+
+export interface FishCompArgsOptions {
+	/**
+	 * Removes the root command and adjusts the values. See
+	 * [BashCompArgsOptions]
+	 */
+	stripCmd?: boolean;
+
+	/** Defaults to `Deno.env` */
+	env?: CmdEnv;
+}
+
+/**
+ * Reads the completion request sent by the script from [fishCompScript].
+ * `FISH_COMP_LINE` holds the output of `commandline -cp`, the command line up
+ * to the cursor.
+ */
+export function fishCompArgs(options?: FishCompArgsOptions): CompArgs | null {
+	const line = (options?.env ?? Deno.env).get("FISH_COMP_LINE") ?? null;
+	if (line === null) {
+		return null;
+	}
+	const args = line.trimStart().split(/\s+/);
+	const stripCmd = options?.stripCmd ?? true;
+	const rest = stripCmd ? args.slice(1) : args;
+	const restLine = rest.join(" ");
+	return {
+		cword: rest.length - 1,
+		line: restLine,
+		point: restLine.length,
+		args: rest,
+	};
+}
+
 export class Cmd {
-	static detectCompletion(): boolean {
-		const line = Deno.env.get("COMP_LINE");
-		if (line === undefined) {
-			return false;
+	static detectCompletion(env: CmdEnv = Deno.env): boolean {
+		return Cmd.detectCompShell(env) !== null;
+	}
+
+	/**
+	 * Determines which shell, if any, is requesting completions.
+	 */
+	static detectCompShell(env: CmdEnv = Deno.env): CompShell | null {
+		if (env.get("ZSH_COMP_WORDS") !== undefined) {
+			return "zsh";
+		}
+		if (env.get("FISH_COMP_LINE") !== undefined) {
+			return "fish";
 		}
-		if (line.length > 0) {
-			return true;
+		if (env.get("COMP_LINE") !== undefined) {
+			return "bash";
 		}
-		return true;
+		return null;
+	}
+
+	/**
+	 * Identity function that keeps the literal types of the schema so that
+	 * `ctx.params` is typed in `do`.
+	 */
+	static makeApi<const S extends Schema>(api: CmdApi<S>): CmdApi<S> {
+		return api;
 	}
 
 	public name: string = "";
@@ -127,29 +461,36 @@ export class Cmd {
 	public long: string | null = null;
 	public short: string | null = null;
 	public schema: Schema = {};
+	public flags: Flag[] = [];
+	public completeAliases: boolean = false;
+	public prefixMatch: boolean = true;
+	public hidden: boolean = false;
+	public version: string | null = null;
+	public plugins: boolean = true;
 
 	constructor(private api: CmdApi) {
 		this.updateApi(api);
 	}
 
+	/**
+	 * Whether words that aren't subcommands are looked up as plugins.
+	 * Commands without subcommands, or taking arguments themselves, never do
+	 * so that an argument can't be taken over by an executable on `$PATH`.
+	 */
+	get findsPlugins(): boolean {
+		return this.plugins && this.children.length > 0 && !this.api.do;
+	}
+
 	/**
 	 * Init the command. This gets called depending on the path taken taken.
 	 * May modify itself and its childrent to change the potential path
 	 */
 	async init(ctx: Ctx, args: string[]): Promise<DenzaiErr | null> {
 		if (this.api.init) {
-			await ctx.log({
-				level: "trace",
-				message: `Running init for ${this.name}`,
-				context: transformContext(ctx),
-			});
+			await traceCtx(ctx, `Running init for ${this.name}`);
 			return this.api.init(ctx, args);
 		}
-		await ctx.log({
-			level: "trace",
-			message: `No init for ${this.name}`,
-			context: transformContext(ctx),
-		});
+		await traceCtx(ctx, `No init for ${this.name}`);
 		return null;
 	}
 
@@ -159,30 +500,54 @@ export class Cmd {
 	async do(ctx: Ctx, args: string[]): Promise<DenzaiErr | null> {
 		const doFn = this.api.do;
 		if (doFn) {
-			await ctx.log({
-				level: "trace",
-				message: `Running command for ${this.name}`,
-				context: transformContext(ctx),
-			});
+			await traceCtx(ctx, `Running command for ${this.name}`);
 			return doFn(ctx, args);
 		}
-		await ctx.log({
-			level: "trace",
-			message: `No command for ${this.name}. Nothing to do`,
-			context: transformContext(ctx),
-		});
+		await traceCtx(ctx, `No command for ${this.name}. Nothing to do`);
 		return null;
 	}
 
 	async completion(
 		ctx: Ctx,
 		args: CompArgs,
-	): Promise<Result<string[], DenzaiErr>> {
+	): Promise<Result<CompItem[], DenzaiErr>> {
+		const word = args.args[args.args.length - 1] ?? "";
+		if (word.startsWith("-")) {
+			// Local flags are listed before the inherited ones
+			return Ok(
+				withHelpFlag(
+					withVersionFlag(ctx.path, flagScope(ctx.path)),
+				).map((a) => ({
+					value: `--${a.name}`,
+					description: a.description,
+				})),
+			);
+		}
 		const cmdCmp = ctx.cmd.api.completer?.cmdComplete ?? defaultCmdComplete;
 		const cmp = ctx.cmd.api.completer?.complete ?? defaultComplete;
 		const cmdComps = await cmdCmp(ctx, args);
 		const argComps = await cmp(ctx, args);
-		return Ok([...cmdComps, ...argComps]);
+		const plugins = ctx.cmd === ctx.root && ctx.cmdArgs.length <= 1
+			? await listPlugins(ctx.root, ctx.env)
+			: [];
+		return Ok([
+			...cmdComps.map((item) => {
+				if (typeof item !== "string") {
+					return item;
+				}
+				const child = ctx.cmd.children.find((a) =>
+					a.name === item || a.alias.includes(item)
+				);
+				return { value: item, description: child?.short ?? undefined };
+			}),
+			...plugins.map((a) => ({
+				value: a.name,
+				description: pluginCmd(a).short,
+			})),
+			...argComps.map((item) =>
+				typeof item === "string" ? { value: item } : item
+			),
+		]);
 	}
 
 	/**
@@ -218,20 +583,119 @@ export class Cmd {
 		this.long = this.api.long ?? "";
 		this.short = this.api.short ?? "";
 		this.schema = this.api.schema ?? {};
+		this.version = this.api.version ?? null;
+		this.flags = this.api.flags ?? [];
+		if (
+			this.version !== null &&
+			!this.flags.some((a) => a.name === versionFlag.name)
+		) {
+			this.flags = [...this.flags, versionFlag];
+		}
+		this.completeAliases = this.api.completeAliases ?? false;
+		this.prefixMatch = this.api.prefixMatch ?? true;
+		this.hidden = this.api.hidden ?? false;
+		this.plugins = this.api.plugins ?? true;
 		return;
 	}
 
+	/**
+	 * Checks the command tree below this command, such as for versions that
+	 * aren't semver or two children claiming the same name. `run` returns the
+	 * error before doing anything else.
+	 */
+	check(): DenzaiErr | null {
+		const err = this.checkVersion() ?? this.checkConflicts();
+		if (err !== null) {
+			return err;
+		}
+		for (const child of this.children) {
+			const childErr = child.check();
+			if (childErr !== null) {
+				return childErr;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Error when the declared version isn't a semantic version.
+	 */
+	private checkVersion(): DenzaiErr | null {
+		if (this.version !== null && !isSemver(this.version)) {
+			return new DenzaiErr({
+				code: "INVALID_VERSION",
+				message:
+					`${this.name} has version "${this.version}", expected a semantic version such as 1.2.3`,
+				context: { cmd: this.name, version: this.version },
+			});
+		}
+		return null;
+	}
+
+	/**
+	 * Error when two children may be invoked by the same name or alias.
+	 */
+	private checkConflicts(): DenzaiErr | null {
+		const seen = new Map<string, Cmd>();
+		for (const child of this.children) {
+			for (const name of [child.name, ...child.alias]) {
+				const other = seen.get(name);
+				if (other !== undefined && other !== child) {
+					return new DenzaiErr({
+						code: "ALIAS_CONFLICT",
+						message:
+							`"${name}" is claimed by both ${other.name} and ${child.name}`,
+						context: {
+							parent: this.name,
+							name,
+							cmds: [other.name, child.name],
+						},
+					});
+				}
+				seen.set(name, child);
+			}
+		}
+		return null;
+	}
+
 	/**
 	 * High level command to run this command. Determines wether to run the
 	 * program or run completions based on the environment and arguments.
 	 */
 	async run(options?: RunCmdOptions): Promise<DenzaiErr | null> {
+		const invalid = this.check();
+		if (invalid !== null) {
+			return invalid;
+		}
 		const detectComp = options?.detectComp ?? true;
-		const compArgs = detectComp ? bashCompArgs({ stripCmd: true }) : null;
-		if (compArgs) {
-			return await this.runCompletions(compArgs);
+		const env = options?.env ?? Deno.env;
+		const compShell = detectComp ? Cmd.detectCompShell(env) : null;
+		const compArgs = compShell === "zsh"
+			? zshCompArgs({ stripCmd: true, env })
+			: compShell === "fish"
+			? fishCompArgs({ stripCmd: true, env })
+			: compShell === "bash"
+			? bashCompArgs({ stripCmd: true, env })
+			: null;
+		if (compShell && compArgs) {
+			return await this.runCompletions(compArgs, {
+				...options,
+				compShell,
+			});
+		}
+		if (options?.signal) {
+			return this.runWithArgs(options?.args ?? Deno.args, options);
+		}
+		const controller = new AbortController();
+		const unlisten = listenForInterrupt(controller);
+		try {
+			return await this.runWithArgs(options?.args ?? Deno.args, {
+				...options,
+				signal: controller.signal,
+			});
+		} finally {
+			unlisten();
 		}
-		return this.runWithArgs(Deno.args, options);
 	}
 
 	/**
@@ -243,18 +707,20 @@ export class Cmd {
 		args: CompArgs,
 		options?: RunCmdOptions,
 	): Promise<DenzaiErr | null> {
-		const ctx = await this.buildContext(args, options);
-		const res = await this.completion(
+		const { ctx } = await this.buildContext(args, options);
+		const comps = await this.completion(
 			ctx,
 			makeCompArgs({
 				line: ctx.cmdArgs.join(" "),
 				point: ctx.cmdArgs.length,
 			}),
 		);
-		if (!res.success) {
-			return res.error;
+		if (!comps.success) {
+			return comps.error;
 		}
-		await ctx.print(res.value.join(" "));
+		await ctx.print(
+			formatCompletions(comps.value, options?.compShell ?? "bash"),
+		);
 		return null;
 	}
 
@@ -265,72 +731,287 @@ export class Cmd {
 		args: string[],
 		options?: RunCmdOptions,
 	): Promise<DenzaiErr | null> {
-		const ctx = await this.buildContext(args, options);
-		const { regxArgs, maxArgs, minArgs, exact } = ctx.cmd.schema;
-		if (exact && ctx.cmdArgs.length !== exact) {
+		const renderErr = options?.renderErr ?? defaultRenderErr;
+		const { ctx, error } = await this.buildContext(args, options);
+		if (error === null && isHelpRequest(ctx)) {
+			await ctx.print(
+				helpText(ctx.path, {
+					width: ctx.width ?? 80,
+					plugins: ctx.path.length === 1
+						? await listPlugins(ctx.root, ctx.env)
+						: [],
+				}),
+			);
 			return null;
 		}
-		if (minArgs && !(ctx.cmdArgs.length >= minArgs)) {
+		if (error === null && isVersionRequest(ctx)) {
+			const paths = ctx.path.map((_, i) => ctx.path.slice(0, i + 1));
+			await ctx.print(formatVersion(versionInfo(ctx.root, paths)));
 			return null;
 		}
-		if (maxArgs && !(maxArgs <= ctx.cmdArgs.length)) {
-			return null;
+		const err = error ?? validateArgs(ctx);
+		if (err !== null) {
+			await renderErr(ctx, err);
+			return err;
 		}
-		if (regxArgs && !regxArgs.test(ctx.cmdArgs.join(" "))) {
-			return null;
+		const params = parseParams(ctx);
+		if (!params.success) {
+			await renderErr(ctx, params.error);
+			return params.error;
 		}
+		ctx.params = params.value;
 
-		return await ctx.cmd.do(ctx, ctx.cmdArgs);
+		const abortGrace = options?.abortGrace ?? 1000;
+		const timeoutValue = ctx.flags[timeoutFlag.name];
+		const timeout = timeoutDuration(timeoutValue);
+		if (timeout instanceof DenzaiErr) {
+			await renderErr(ctx, timeout);
+			return timeout;
+		}
+		if (timeout === null) {
+			return await this.execute(ctx, abortGrace);
+		}
+		const controller = new AbortController();
+		const timer = setTimeout(
+			() => controller.abort(timeoutErr(String(timeoutValue), timeout)),
+			timeout,
+		);
+		ctx.signal = AbortSignal.any([ctx.signal, controller.signal]);
+		try {
+			return await this.execute(ctx, abortGrace);
+		} finally {
+			clearTimeout(timer);
+		}
 	}
 
 	/**
-	 * Find the next subcommand on the tree
+	 * Runs `do` of the selected command wrapped in the `before`, `onError` and
+	 * `after` hooks of the commands along the path. `do` is skipped when
+	 * `ctx.signal` was aborted by then. Once it is, `do` gets [abortGrace]
+	 * milliseconds to return before the command fails with the abort reason.
+	 * The `after` hooks then run while `do` may still be going. Exceptions
+	 * become `INTERNAL` errors so that the `after` hooks still get to clean up.
 	 */
-	private nextSubcommand(ctx: Ctx): Cmd | null {
-		const [cmdName] = ctx.cmdArgs;
-		if (cmdName === undefined) {
-			return null;
+	private async execute(
+		ctx: Ctx,
+		abortGrace: number,
+	): Promise<DenzaiErr | null> {
+		let err: DenzaiErr | null = null;
+		let ran = 0;
+		try {
+			for (const cmd of ctx.path) {
+				ran++;
+				err = (await cmd.api.before?.(ctx, ctx.cmdArgs)) ?? null;
+				if (err !== null) {
+					break;
+				}
+			}
+			if (err === null && ctx.signal.aborted) {
+				err = abortReason(ctx.signal);
+			}
+			if (err === null) {
+				const done = ctx.cmd.do(ctx, ctx.cmdArgs).catch((e) =>
+					DenzaiErr.from(e)
+				);
+				const res = await settleWithin(done, ctx.signal, abortGrace);
+				err = res === null ? abortReason(ctx.signal) : res.value;
+			}
+		} catch (e) {
+			err = DenzaiErr.from(e);
 		}
 
-		for (const child of ctx.cmd.children ?? []) {
-			if (
-				child.name === cmdName ||
-				(cmdName.length > 0 && child.name.startsWith(cmdName))
-			) {
-				return child;
+		try {
+			for (const cmd of [...ctx.path].reverse()) {
+				if (err === null) {
+					break;
+				}
+				if (cmd.api.onError) {
+					err = await cmd.api.onError(ctx, err);
+				}
 			}
+		} catch (e) {
+			err = DenzaiErr.from(e);
 		}
-		return null;
+
+		for (const cmd of ctx.path.slice(0, ran).reverse()) {
+			let afterErr: DenzaiErr | null;
+			try {
+				afterErr = (await cmd.api.after?.(ctx, err)) ?? null;
+			} catch (e) {
+				afterErr = DenzaiErr.from(e);
+			}
+			err = err ?? afterErr;
+		}
+		return err;
 	}
 
 	/**
-	 * builds the next item in the tree if it exists
+	 * Find the next subcommand on the tree. A prefix only matches when it is
+	 * unique and never matches hidden commands. Words that match nothing are
+	 * an error for commands that can't take arguments themselves.
 	 */
-	private async processNext(ctx: Ctx): Promise<Ctx> {
+	private nextSubcommand(ctx: Ctx): Result<Cmd | null, DenzaiErr> {
+		const [cmdName] = ctx.cmdArgs;
+		if (cmdName === undefined || cmdName === "--") {
+			return Ok(null);
+		}
+		// The word being completed is a candidate, not a choice
+		if (ctx.isComp && ctx.cmdArgs.length === 1) {
+			return Ok(null);
+		}
+
+		const children = ctx.cmd.children ?? [];
+		const exact = children.find((child) =>
+			child.name === cmdName || child.alias.includes(cmdName)
+		);
+		if (exact !== undefined) {
+			return Ok(exact);
+		}
+
+		const candidates = cmdName.length > 0
+			? children.filter((child) =>
+				child.prefixMatch && !child.hidden &&
+				child.name.startsWith(cmdName)
+			)
+			: [];
+		if (candidates.length === 1) {
+			return Ok(candidates[0]!);
+		}
+		if (candidates.length > 1) {
+			const names = candidates.map((a) => a.name);
+			return Err(
+				new DenzaiErr({
+					code: "AMBIGUOUS_COMMAND",
+					message: `"${cmdName}" could be any of ${names.join(", ")}`,
+					context: {
+						name: cmdName,
+						candidates: names,
+						usage: usageLine(ctx.path),
+					},
+				}),
+			);
+		}
+
+		if (children.length === 0 || ctx.cmd.api.do || ctx.isComp) {
+			return Ok(null);
+		}
+		const suggestions = suggest(
+			cmdName,
+			children.filter((a) => !a.hidden).flatMap((
+				a,
+			) => [a.name, ...a.alias]),
+		);
+		const hint = suggestions.length > 0
+			? `. Did you mean "${suggestions[0]}"?`
+			: "";
+		return Err(
+			new DenzaiErr({
+				code: "UNKNOWN_COMMAND",
+				message: `unknown command "${cmdName}" for "${
+					ctx.path.map((a) => a.name).join(" ")
+				}"${hint}`,
+				context: {
+					name: cmdName,
+					suggestions,
+					usage: usageLine(ctx.path),
+				},
+			}),
+		);
+	}
+
+	/**
+	 * builds the next item in the tree if it exists. Flags given before a
+	 * subcommand are parsed on the way down, including persistent flags of
+	 * the ancestors. The remaining flags are parsed once the final command is
+	 * known.
+	 */
+	private async processNext(ctx: Ctx): Promise<DenzaiErr | null> {
+		const scope = flagScope(ctx.path);
+		const parseScope = withHelpFlag(withVersionFlag(ctx.path, scope));
+		const leading = parseFlags(parseScope, ctx.cmdArgs, {
+			stopAtPositional: true,
+		});
+		if (!leading.success) {
+			return leading.error;
+		}
+		mergeFlags(ctx.flags, leading.value.flags);
+		ctx.cmdArgs = leading.value.args;
+
 		await ctx.cmd.init(ctx, ctx.cmdArgs);
-		const subCmd = this.nextSubcommand(ctx);
+		const next = this.nextSubcommand(ctx);
+		if (!next.success) {
+			const plugin = next.error.code === "UNKNOWN_COMMAND"
+				? await findPlugin(ctx)
+				: null;
+			if (plugin === null) {
+				return next.error;
+			}
+			// Everything after the name belongs to the plugin
+			const cmd = new Cmd(pluginCmd(plugin));
+			ctx.parent = ctx.cmd;
+			ctx.cmdArgs = ctx.cmdArgs.slice(1);
+			ctx.cmd = cmd;
+			ctx.path.push(cmd);
+			ctx.flags = { ...flagDefaults(scope), ...ctx.flags };
+			return null;
+		}
+		const subCmd = next.value;
 		if (subCmd !== null) {
 			const [, ...subCmdArgs] = ctx.cmdArgs;
 			ctx.parent = ctx.cmd;
 			ctx.cmdArgs = subCmdArgs;
 			ctx.cmd = subCmd;
 			ctx.path.push(subCmd);
-			await this.processNext(ctx);
+			return await this.processNext(ctx);
+		}
+
+		const rest = parseFlags(parseScope, ctx.cmdArgs);
+		if (!rest.success) {
+			return rest.error;
 		}
-		return ctx;
+		mergeFlags(ctx.flags, rest.value.flags);
+		ctx.flags = { ...flagDefaults(scope), ...ctx.flags };
+		ctx.cmdArgs = rest.value.args;
+		if (isHelpRequest(ctx)) {
+			return null;
+		}
+		return checkRequired(scope, ctx.flags);
 	}
 
 	/**
 	 * Builds a command context based on the provided arguments and options.
-	 * Calls the init function as it follows the path.
+	 * Calls the init function as it follows the path. Errors found along the
+	 * way are returned with the context so that they may be rendered.
 	 */
 	private async buildContext(
 		args: CompArgs | string[],
 		options?: RunCmdOptions,
-	): Promise<Ctx> {
+	): Promise<{ ctx: Ctx; error: DenzaiErr | null }> {
 		const print = options?.print ?? defaultPrintFn;
 		const printErr = options?.printErr ?? defaultPrintErrFn;
-		const log: LogFn = options?.log ?? nullLogFn;
+		const sink: LogFn = options?.log ?? prettyLogSink(printErr, {
+			color: printErr === defaultPrintErrFn && Deno.stderr.isTerminal(),
+		});
+		const logFile = options?.logFile
+			? fileLogSink(
+				async () => (await ctx.backend()).state,
+				options.logFile === true ? undefined : options.logFile,
+			)
+			: null;
+		const logEnabled = (level: LogLevel) => {
+			const threshold = options?.logLevel ??
+				parseLogThreshold(ctx.flags[logLevelFlag.name]) ??
+				parseLogThreshold(ctx.env.get(logLevelEnv(ctx.root.name))) ??
+				"warn";
+			return isLevelEnabled(level, threshold);
+		};
+		const log: LogFn = async (entry) => {
+			if (!logEnabled(entry.level)) {
+				return;
+			}
+			await sink(entry);
+			await logFile?.(entry);
+		};
 
 		const isComp = !Array.isArray(args);
 		const ctxArgs = Array.isArray(args) ? [...args] : [...args.args]; // Creating a copy as context is mutated
@@ -340,13 +1021,37 @@ export class Cmd {
 			parent: null,
 			args: ctxArgs,
 			cmdArgs: ctxArgs,
+			flags: {},
+			params: {},
 			cmd: this,
 			path: [this],
 			print,
 			printErr,
 			log,
+			logEnabled,
+			stdin: options?.stdin ?? denoStdin(),
+			env: options?.env ?? Deno.env,
+			width: print === defaultPrintFn && Deno.stdout.isTerminal()
+				? terminalWidth()
+				: null,
+			backend: lazyBackend(options?.backend),
+			signal: options?.signal ?? new AbortController().signal,
+			async output(records, outputOptions) {
+				const format = outputOptions?.format ??
+					outputFormat(ctx.flags[outputFlag.name]);
+				if (format instanceof DenzaiErr) {
+					return format;
+				}
+				await ctx.print(
+					renderOutput(records, format, {
+						width: ctx.width ?? undefined,
+						...outputOptions,
+					}),
+				);
+				return null;
+			},
 		};
-		await this.processNext(ctx);
-		return ctx;
+		const error = await this.processNext(ctx);
+		return { ctx, error };
 	}
 }
@@ -0,0 +1,107 @@
+import { fileStore } from "../../store/file_store.ts";
+import type { Store } from "../../store/store.ts";
+import { getUserConfigDir, getUserDataDir } from "../../utils/local_fs.ts";
+import { Path } from "../../utils/mod.ts";
+import { compScript } from "../completions.ts";
+import { DenzaiErr } from "../error.ts";
+import type { CmdApi, CompShell } from "../types.ts";
+
+export interface CompletionCmdOptions {
+	/**
+	 * Store the scripts are installed into with `--install`. Paths written are
+	 * absolute. Defaults to the local file system.
+	 */
+	store?: () => Store | Promise<Store>;
+}
+
+/**
+ * Conventional per-user location of the completion script for [shell].
+ * Zsh has no such convention so the script goes next to the bash ones and
+ * the directory needs to be added to `$fpath`.
+ */
+export async function compScriptPath(
+	shell: CompShell,
+	name: string,
+): Promise<string> {
+	switch (shell) {
+		case "bash":
+			return Path.join(
+				await getUserDataDir(),
+				"bash-completion",
+				"completions",
+				name,
+			);
+		case "zsh":
+			return Path.join(
+				await getUserDataDir(),
+				"zsh",
+				"site-functions",
+				`_${name}`,
+			);
+		case "fish":
+			return Path.join(
+				await getUserConfigDir(),
+				"fish",
+				"completions",
+				`${name}.fish`,
+			);
+	}
+}
+
+function shellCmd(
+	shell: CompShell,
+	short: string,
+	options?: CompletionCmdOptions,
+): CmdApi {
+	return {
+		name: shell,
+		short,
+		schema: { exact: 0 },
+		async do(ctx) {
+			const script = compScript(shell, ctx.root.name);
+			if (!ctx.flags["install"]) {
+				await ctx.print(script);
+				return null;
+			}
+			const store = await (options?.store ??
+				(() => fileStore({ jail: "/", pwd: "/" })))();
+			const path = await compScriptPath(shell, ctx.root.name);
+			const err = await store.write(path, script);
+			if (err) {
+				return new DenzaiErr({
+					code: "WRITE_FAILED",
+					message: `Unable to write ${path}`,
+					context: { path, shell, error: err },
+				});
+			}
+			await ctx.print(`Installed ${shell} completions to ${path}\n`);
+			return null;
+		},
+	};
+}
+
+/**
+ * Builds a `completion` command. Use [completionCmd] unless the install
+ * location needs to be swapped, such as in tests.
+ */
+export function makeCompletionCmd(options?: CompletionCmdOptions): CmdApi {
+	return {
+		name: "completion",
+		short: "Print or install shell completions",
+		flags: [
+			{
+				name: "install",
+				short: "i",
+				persistent: true,
+				description: "Write the script to the per-user location",
+			},
+		],
+		children: [
+			shellCmd("bash", "Completions for bash", options),
+			shellCmd("zsh", "Completions for zsh", options),
+			shellCmd("fish", "Completions for fish", options),
+		],
+	};
+}
+
+export const completionCmd: CmdApi = makeCompletionCmd();
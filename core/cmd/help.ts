@@ -1,56 +1,187 @@
 import type { Cmd } from "../cmd.ts";
-import type { CmdApi, Ctx } from "../types.ts";
+import { DenzaiErr } from "../error.ts";
+import { flagScope, flagUsage, inheritedFlags } from "../flags.ts";
+import { Err, Ok, type Result, suggest, wrapText } from "../funcs.ts";
+import { listPlugins, type Plugin } from "../plugin.ts";
+import type { CmdApi, Ctx, Flag } from "../types.ts";
+import { usageLine } from "../usage.ts";
+
+/**
+ * Flag recognized on every command. `app remote --help` prints the same as
+ * `app help remote`.
+ */
+export const helpFlag: Flag = {
+	name: "help",
+	short: "h",
+	description: "Show help for the command",
+};
+
+export interface HelpOptions {
+	/** Include hidden commands */
+	all?: boolean;
+
+	/** Column to wrap the description at. Defaults to 80 */
+	width?: number;
+
+	/** Plugins listed after the subcommands, see [listPlugins] */
+	plugins?: Plugin[];
+}
+
+/**
+ * Adds [helpFlag] to the flags of a command unless the command uses the name
+ * for something else. The short form is left out when it is taken.
+ */
+export function withHelpFlag(scope: Flag[]): Flag[] {
+	if (scope.some((a) => a.name === helpFlag.name)) {
+		return scope;
+	}
+	const flag = scope.some((a) => a.short === helpFlag.short)
+		? { ...helpFlag, short: undefined }
+		: helpFlag;
+	return [...scope, flag];
+}
+
+/**
+ * Whether the builtin `--help` was given.
+ */
+export function isHelpRequest(ctx: Ctx): boolean {
+	return ctx.flags[helpFlag.name] === true &&
+		!flagScope(ctx.path).some((a) => a.name === helpFlag.name);
+}
+
+function flagLines(flags: Flag[]): string[] {
+	const usages = flags.map(flagUsage);
+	const maxUsageLength = usages.reduce((max, usage) => {
+		return Math.max(max, usage.length);
+	}, 0);
+	return flags.map((flag, i) => {
+		const line = [`\t${usages[i]!.padEnd(maxUsageLength)}`];
+		if (flag.description) {
+			line.push(`← ${flag.description}`);
+		}
+		return line.join(" ");
+	});
+}
+
+/**
+ * Renders the help of the last command in [path]: the usage line, the
+ * description, aliases, child commands and flags.
+ */
+export function helpText(path: Cmd[], options?: HelpOptions): string {
+	const cmd = path[path.length - 1];
+	if (cmd === undefined) {
+		return "";
+	}
+	const all = options?.all ?? false;
+	const lines = [usageLine(path)];
+
+	const description = cmd.long || cmd.short;
+	if (description) {
+		lines.push("", wrapText(description, options?.width ?? 80), "");
+	}
+	if (cmd.alias.length > 0) {
+		lines.push(`aliases: ${cmd.alias.join(", ")}`);
+	}
+
+	const label = (cmd: Cmd) => [cmd.name, ...cmd.alias].join(", ");
+	const children = cmd.children.filter((a) =>
+		a.name !== helpCmd.name && (all || !a.hidden)
+	);
+	const maxNameLength = children.reduce((max, cmd) => {
+		return Math.max(max, label(cmd).length);
+	}, 0);
+	for (const child of children) {
+		const line = [`\t${label(child).padEnd(maxNameLength)}`];
+		if (child.short) {
+			line.push(`← ${child.short}`);
+		}
+		lines.push(line.join(" "));
+	}
+	const plugins = options?.plugins ?? [];
+	if (plugins.length > 0) {
+		lines.push("plugins:", ...plugins.map((a) => `\t${a.name}`));
+	}
+
+	const inherited = inheritedFlags(path);
+	if (cmd.flags.length > 0) {
+		lines.push("flags:", ...flagLines(cmd.flags));
+	}
+	if (inherited.length > 0) {
+		lines.push("inherited flags:", ...flagLines(inherited));
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Follows the command names in [args] down from the last command in [base].
+ */
+export function resolveHelpPath(
+	base: Cmd[],
+	args: string[],
+): Result<Cmd[], DenzaiErr> {
+	const path = [...base];
+	for (const name of args) {
+		const cmd = path[path.length - 1]!;
+		const child = cmd.children.find((a) =>
+			a.name === name || a.alias.includes(name)
+		);
+		if (child === undefined) {
+			const suggestions = suggest(
+				name,
+				cmd.children.filter((a) => !a.hidden).map((a) => a.name),
+			);
+			const hint = suggestions.length > 0
+				? `. Did you mean "${suggestions[0]}"?`
+				: "";
+			return Err(
+				new DenzaiErr({
+					code: "UNKNOWN_COMMAND",
+					message: `unknown help topic "${name}" for "${
+						path.map((a) => a.name).join(" ")
+					}"${hint}`,
+					context: { name, suggestions, usage: usageLine(path) },
+				}),
+			);
+		}
+		path.push(child);
+	}
+	return Ok(path);
+}
 
 export const helpCmd: CmdApi = {
 	name: "help",
 	alias: ["h"],
 	vars: [],
+	flags: [
+		{ name: "all", short: "a", description: "Include hidden commands" },
+	],
 	async do(ctx, args) {
-		const parent = ctx.parent || ctx.root;
-		await ctx.print(`usage: ${parent.name}`);
-		if (parent.children.length > 0) {
-			await ctx.print(" <command>");
-		}
-		if (parent.schema.minArgs ?? 0 > 0) {
-			await ctx.print(" [<args>]");
+		const base = ctx.parent ? ctx.path.slice(0, -1) : [ctx.root];
+		const path = resolveHelpPath(base, ctx.cmdArgs);
+		if (!path.success) {
+			return path.error;
 		}
-		await ctx.print("\n");
-
-		function f(ctx: Ctx, root: Cmd, depth: number): string[] {
-			const maxNameLength = root.children.reduce((max, cmd) => {
-				return Math.max(max, cmd.name.length);
-			}, 0);
-			const lines: string[] = [];
-			for (const child of root.children) {
-				if (child.name == helpCmd.name) {
-					continue;
-				}
-				const line = [];
-				line.push(
-					`${"\t".repeat(depth)}${child.name.padEnd(maxNameLength)}`,
-				);
-				if (child.short) {
-					line.push(`← ${child.short}`);
-				}
-				lines.push(line.join(" "));
-				lines.push(...f(ctx, child, depth + 1));
-			}
-			return lines;
-		}
-		const lines = f(ctx, parent, 1);
-		await ctx.print(lines.join("\n"));
-		await ctx.print("\n");
+		await ctx.print(
+			helpText(path.value, {
+				all: ctx.flags["all"] === true,
+				width: ctx.width ?? 80,
+				plugins: path.value.length === 1
+					? await listPlugins(ctx.root, ctx.env)
+					: [],
+			}),
+		);
 		return null;
 	},
 	completer: {
 		async cmdComplete(ctx, ...args) {
-			return ctx.cmd.children.reduce((acc, child) => {
-				if (child.children.find((a) => a.name === helpCmd.name)) {
-					acc.push(child.name);
-					return acc;
-				}
-				return acc;
-			}, [] as string[]);
+			const base = ctx.parent ? ctx.path.slice(0, -1) : [ctx.root];
+			const path = resolveHelpPath(base, ctx.cmdArgs.slice(0, -1));
+			if (!path.success) {
+				return [];
+			}
+			return path.value[path.value.length - 1]!.children
+				.filter((a) => !a.hidden && a.name !== helpCmd.name)
+				.map((a) => a.name);
 		},
 	},
 };
@@ -1 +1,3 @@
+export * from "./completion.ts";
 export * from "./help.ts";
+export * from "./version.ts";
@@ -0,0 +1,133 @@
+import type { Cmd } from "../cmd.ts";
+import type { CmdApi, Ctx, Flag } from "../types.ts";
+
+/**
+ * Flag added to every command that declares a version. `app --version`
+ * prints the versions along the command path.
+ */
+export const versionFlag: Flag = {
+	name: "version",
+	description: "Print the version",
+};
+
+/**
+ * Adds [versionFlag] to the flags of the last command in [path] when a
+ * command along the path declares a version. Subcommands accept
+ * `--version` this way without listing it as an inherited flag.
+ */
+export function withVersionFlag(path: Cmd[], scope: Flag[]): Flag[] {
+	if (
+		scope.some((a) => a.name === versionFlag.name) ||
+		!path.some((a) => a.flags.includes(versionFlag))
+	) {
+		return scope;
+	}
+	return [...scope, versionFlag];
+}
+
+export interface VersionInfo {
+	/** Name of the root command */
+	name: string;
+
+	/** Version of the root command. Null when it doesn't declare one */
+	version: string | null;
+
+	/** Versions of subcommands keyed by their full name, such as `app sub` */
+	commands: Record<string, string>;
+
+	runtime: {
+		deno: string;
+		v8: string;
+		typescript: string;
+		os: string;
+		arch: string;
+	};
+}
+
+function pathName(path: Cmd[]): string {
+	return path.map((a) => a.name).join(" ");
+}
+
+/**
+ * Paths to every visible command below [root] that declares its own version.
+ */
+export function versionedPaths(root: Cmd): Cmd[][] {
+	const paths: Cmd[][] = [];
+	const walk = (path: Cmd[]) => {
+		for (const child of path[path.length - 1]!.children) {
+			if (child.hidden) {
+				continue;
+			}
+			const childPath = [...path, child];
+			if (child.version !== null) {
+				paths.push(childPath);
+			}
+			walk(childPath);
+		}
+	};
+	walk([root]);
+	return paths;
+}
+
+/**
+ * Collects the version of [root], the versions of the subcommands at the end
+ * of [paths] and details about the runtime.
+ */
+export function versionInfo(root: Cmd, paths: Cmd[][]): VersionInfo {
+	const commands: Record<string, string> = {};
+	for (const path of paths) {
+		const cmd = path[path.length - 1];
+		if (cmd && cmd !== root && cmd.version !== null) {
+			commands[pathName(path)] = cmd.version;
+		}
+	}
+	return {
+		name: root.name,
+		version: root.version,
+		commands,
+		runtime: {
+			deno: Deno.version.deno,
+			v8: Deno.version.v8,
+			typescript: Deno.version.typescript,
+			os: Deno.build.os,
+			arch: Deno.build.arch,
+		},
+	};
+}
+
+/**
+ * Renders [info] as one `name version` line per command.
+ */
+export function formatVersion(info: VersionInfo): string {
+	const lines = [`${info.name} ${info.version ?? "unknown"}`];
+	for (const [name, version] of Object.entries(info.commands)) {
+		lines.push(`${name} ${version}`);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Whether `--version` was given to a command providing [versionFlag].
+ */
+export function isVersionRequest(ctx: Ctx): boolean {
+	return ctx.flags[versionFlag.name] === true &&
+		ctx.path.some((a) => a.flags.includes(versionFlag));
+}
+
+export const versionCmd: CmdApi = {
+	name: "version",
+	short: "Print the version",
+	schema: { exact: 0 },
+	flags: [
+		{ name: "json", description: "Print as JSON with runtime details" },
+	],
+	async do(ctx) {
+		const info = versionInfo(ctx.root, versionedPaths(ctx.root));
+		if (ctx.flags["json"]) {
+			await ctx.print(`${JSON.stringify(info, null, 2)}\n`);
+			return null;
+		}
+		await ctx.print(formatVersion(info));
+		return null;
+	},
+};
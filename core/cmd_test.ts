@@ -1,8 +1,15 @@
 import { assertEquals } from "@std/assert";
-import { Cmd } from "./cmd.ts";
+import { Cmd, fishCompArgs, zshCompArgs } from "./cmd.ts";
+import { fishCompScript, makeCompArgs, zshCompScript } from "./completions.ts";
+import { compScriptPath, makeCompletionCmd } from "./cmd/completion.ts";
 import { helpCmd } from "./cmd/help.ts";
+import { versionCmd } from "./cmd/version.ts";
+import { memoryBackend } from "../backend/memory.ts";
+import { memoryStore } from "../store/memory_store.ts";
+import { Result } from "../utils/mod.ts";
 import type { CmdApi, Ctx } from "./types.ts";
-import type { DenzaiErr } from "./error.ts";
+import { DenzaiErr } from "./error.ts";
+import { recordEnv, testCmd } from "./testing.ts";
 
 const addCmd: CmdApi = {
 	name: "add",
@@ -20,13 +27,102 @@ const rmCmd: CmdApi = {
 
 const gitCmd: CmdApi = {
 	name: "git",
+	// The real git-* executables on $PATH would show up as plugins
+	plugins: false,
 	async init(ctx, ...args) {
 		return null;
 	},
 	children: [addCmd, rmCmd, helpCmd],
 };
 
-Deno.test("should do the completion", () => {});
+Deno.test("should do the completion", async () => {
+	const cmd = new Cmd(gitCmd);
+	let log = "";
+	const print = async (value: string) => {
+		log = `${log}${value}`;
+	};
+	await cmd.runCompletions(makeCompArgs({ line: "a" }), { print });
+	assertEquals(log, "add rm help");
+});
+
+Deno.test("should complete with descriptions for zsh", async () => {
+	Deno.env.set("ZSH_COMP_WORDS", "git\na");
+	Deno.env.set("ZSH_COMP_CURRENT", "2");
+	try {
+		const compArgs = zshCompArgs();
+		assertEquals(compArgs, { cword: 0, line: "a", point: 1, args: ["a"] });
+		assertEquals(Cmd.detectCompShell(), "zsh");
+
+		const cmd = new Cmd(gitCmd);
+		let log = "";
+		const print = async (value: string) => {
+			log = `${log}${value}`;
+		};
+		await cmd.runCompletions(compArgs!, { print, compShell: "zsh" });
+		assertEquals(
+			log,
+			[
+				"add:Add file contents to the index",
+				"rm:Remove files from the working tree and from the index",
+				"help",
+			].join("\n"),
+		);
+	} finally {
+		Deno.env.delete("ZSH_COMP_WORDS");
+		Deno.env.delete("ZSH_COMP_CURRENT");
+	}
+	assertEquals(zshCompScript("git").startsWith("#compdef git\n"), true);
+
+	// Words with spaces stay whole
+	assertEquals(
+		zshCompArgs({
+			env: recordEnv({
+				ZSH_COMP_WORDS: "git\nadd\nmy file\n",
+				ZSH_COMP_CURRENT: "4",
+			}),
+		})?.args,
+		["add", "my file", ""],
+	);
+});
+
+Deno.test("should complete with descriptions for fish", async () => {
+	Deno.env.set("FISH_COMP_LINE", "git remote ");
+	try {
+		const compArgs = fishCompArgs();
+		assertEquals(compArgs, {
+			cword: 1,
+			line: "remote ",
+			point: 7,
+			args: ["remote", ""],
+		});
+		assertEquals(Cmd.detectCompShell(), "fish");
+
+		const cmd = new Cmd({
+			name: "git",
+			children: [{
+				name: "remote",
+				completer: {
+					async complete() {
+						return [{
+							value: "origin",
+							description: "Default remote",
+						}];
+					},
+				},
+				children: [{ name: "add", short: "Add a remote" }],
+			}],
+		});
+		let log = "";
+		const print = async (value: string) => {
+			log = `${log}${value}`;
+		};
+		await cmd.runCompletions(compArgs!, { print, compShell: "fish" });
+		assertEquals(log, "add\tAdd a remote\norigin\tDefault remote");
+	} finally {
+		Deno.env.delete("FISH_COMP_LINE");
+	}
+	assertEquals(fishCompScript("git").includes("complete -c git"), true);
+});
 
 Deno.test("should get the help items", async () => {
 	const cmd = new Cmd(gitCmd);
@@ -37,8 +133,8 @@ Deno.test("should get the help items", async () => {
 	await cmd.runWithArgs(["help"], { print });
 	const gitHelpMsg = `
 usage: git <command>
-	add  ← Add file contents to the index
-	rm   ← Remove files from the working tree and from the index
+	add, a ← Add file contents to the index
+	rm     ← Remove files from the working tree and from the index
 `.trimStart();
 	assertEquals(log, gitHelpMsg);
 });
@@ -98,3 +194,781 @@ Deno.test("Should call init in the expected sequence", async () => {
 		{ name: "acc", args: ["arg1", "arg2"] },
 	]);
 });
+
+Deno.test("should parse flags into the context", async () => {
+	let flags: Ctx["flags"] = {};
+	let cmdArgs: string[] = [];
+	const root = new Cmd({
+		name: "app",
+		flags: [{ name: "dry-run", short: "n" }],
+		children: [
+			{
+				name: "push",
+				flags: [
+					{ name: "force", short: "f" },
+					{
+						name: "remote",
+						short: "r",
+						type: "string",
+						default: "origin",
+					},
+					{ name: "tag", type: "list" },
+				],
+				async do(ctx, args) {
+					flags = ctx.flags;
+					cmdArgs = args;
+					return null;
+				},
+			},
+		],
+	});
+
+	const err = await root.runWithArgs([
+		"-n",
+		"push",
+		"main",
+		"-f",
+		"--tag",
+		"v1",
+		"--",
+		"-x",
+	]);
+	assertEquals(err, null);
+	assertEquals(flags, {
+		"dry-run": true,
+		force: true,
+		remote: "origin",
+		tag: ["v1"],
+	});
+	assertEquals(cmdArgs, ["main", "-x"]);
+});
+
+Deno.test("should fail on missing required flags", async () => {
+	const root = new Cmd({
+		name: "app",
+		flags: [{ name: "name", type: "string", required: true }],
+		async do() {
+			return null;
+		},
+	});
+	const err = await root.runWithArgs([]);
+	assertEquals(err?.code, "INVALID_FLAG");
+	assertEquals(await root.runWithArgs(["--name", "a"]), null);
+});
+
+Deno.test("should accept persistent flags at any depth", async () => {
+	let flags: Ctx["flags"] = {};
+	const root = new Cmd({
+		name: "app",
+		flags: [
+			{ name: "verbose", short: "v", persistent: true },
+			{ name: "local", short: "l" },
+		],
+		children: [
+			{
+				name: "sub",
+				children: [
+					{
+						name: "cmd",
+						async do(ctx) {
+							flags = ctx.flags;
+							return null;
+						},
+					},
+				],
+			},
+		],
+	});
+
+	assertEquals(await root.runWithArgs(["--verbose", "sub", "cmd"]), null);
+	assertEquals(flags, { verbose: true });
+	assertEquals(await root.runWithArgs(["sub", "cmd", "-v"]), null);
+	assertEquals(flags, { verbose: true });
+	assertEquals(await root.runWithArgs(["sub", "cmd"]), null);
+	assertEquals(flags, { verbose: false });
+	const err = await root.runWithArgs(["sub", "cmd", "--local"]);
+	assertEquals(err?.code, "INVALID_FLAG");
+});
+
+Deno.test("should list inherited flags separately in help", async () => {
+	const root = new Cmd({
+		name: "app",
+		flags: [{
+			name: "verbose",
+			short: "v",
+			persistent: true,
+			description: "Print more",
+		}],
+		children: [
+			{
+				name: "remote",
+				flags: [{
+					name: "url",
+					type: "string",
+					description: "Remote url",
+				}],
+				children: [{ name: "add", short: "Add a remote" }, helpCmd],
+			},
+		],
+	});
+	let log = "";
+	const print = async (value: string) => {
+		log = `${log}${value}`;
+	};
+	await root.runWithArgs(["remote", "help"], { print });
+	assertEquals(
+		log,
+		`
+usage: app remote [flags] <command>
+	add ← Add a remote
+flags:
+	    --url <string> ← Remote url
+inherited flags:
+	-v, --verbose ← Print more
+`.trimStart(),
+	);
+});
+
+Deno.test("should report schema violations with the usage", async () => {
+	let errLog = "";
+	const printErr = async (value: string) => {
+		errLog = `${errLog}${value}`;
+	};
+	const root = new Cmd({
+		name: "app",
+		children: [
+			{
+				name: "mv",
+				schema: { minArgs: 2, maxArgs: 2 },
+				async do() {
+					return null;
+				},
+			},
+		],
+	});
+
+	const err = await root.runWithArgs(["mv", "a"], { printErr });
+	assertEquals(err?.code, "INVALID_ARGS");
+	assertEquals(err?.context, {
+		constraint: "minArgs",
+		expected: 2,
+		args: ["a"],
+		usage: "usage: app mv <args>",
+	});
+	assertEquals(
+		errLog,
+		"INVALID_ARGS: expected at least 2 argument(s), got 1\nusage: app mv <args>\n",
+	);
+
+	const tooMany = await root.runWithArgs(["mv", "a", "b", "c"], { printErr });
+	assertEquals(tooMany?.code, "INVALID_ARGS");
+	assertEquals(await root.runWithArgs(["mv", "a", "b"], { printErr }), null);
+});
+
+Deno.test("should parse named params", async () => {
+	let params: { level: string; count: number; files: string[] } | null = null;
+	const setCmd = Cmd.makeApi({
+		name: "set",
+		schema: {
+			params: [
+				{ name: "level", type: "enum", choices: ["low", "high"] },
+				{ name: "count", type: "int" },
+				{ name: "files", type: "path", variadic: true, optional: true },
+			],
+		},
+		async do(ctx) {
+			params = ctx.params;
+			return null;
+		},
+	});
+	const root = new Cmd({ name: "app", children: [setCmd] });
+	const printErr = async () => {};
+
+	assertEquals(await root.runWithArgs(["set", "high", "3", "a", "b"]), null);
+	assertEquals(params, { level: "high", count: 3, files: ["a", "b"] });
+
+	const badEnum = await root.runWithArgs(["set", "mid", "3"], { printErr });
+	assertEquals(badEnum?.code, "INVALID_ARGS");
+	assertEquals(
+		(badEnum?.context as { usage: string }).usage,
+		"usage: app set <level> <count> [<files>...]",
+	);
+	const badInt = await root.runWithArgs(["set", "low", "x"], { printErr });
+	assertEquals(badInt?.code, "INVALID_ARGS");
+	const missing = await root.runWithArgs(["set", "low"], { printErr });
+	assertEquals(missing?.code, "INVALID_ARGS");
+});
+
+Deno.test("should complete enum params", async () => {
+	const root = new Cmd({
+		name: "app",
+		children: [{
+			name: "set",
+			schema: {
+				params: [{
+					name: "level",
+					type: "enum",
+					choices: ["low", "high"],
+				}],
+			},
+		}],
+	});
+	let log = "";
+	const print = async (value: string) => {
+		log = `${log}${value}`;
+	};
+	await root.runCompletions(makeCompArgs({ line: "set " }), { print });
+	assertEquals(log, "low high");
+});
+
+Deno.test("should print and install completion scripts", async () => {
+	const store = memoryStore();
+	const root = new Cmd({
+		name: "app",
+		children: [makeCompletionCmd({ store: () => store })],
+	});
+	let log = "";
+	const print = async (value: string) => {
+		log = `${log}${value}`;
+	};
+
+	await root.runWithArgs(["completion", "zsh"], { print });
+	assertEquals(log, zshCompScript("app"));
+
+	log = "";
+	assertEquals(
+		await root.runWithArgs(["completion", "--install", "fish"], { print }),
+		null,
+	);
+	const path = await compScriptPath("fish", "app");
+	assertEquals(log, `Installed fish completions to ${path}\n`);
+	assertEquals(Result.unwrap(await store.read(path)), fishCompScript("app"));
+});
+
+Deno.test("should dispatch and complete aliases", async () => {
+	let ran = "";
+	const root = new Cmd({
+		name: "git",
+		plugins: false,
+		completeAliases: true,
+		children: [
+			{
+				name: "add",
+				alias: ["a"],
+				short: "Add file contents to the index",
+				async do() {
+					ran = "add";
+					return null;
+				},
+			},
+			{
+				name: "annotate",
+				async do() {
+					ran = "annotate";
+					return null;
+				},
+			},
+		],
+	});
+	await root.runWithArgs(["a"]);
+	assertEquals(ran, "add");
+	await root.runWithArgs(["an"]);
+	assertEquals(ran, "annotate");
+
+	let log = "";
+	const print = async (value: string) => {
+		log = `${log}${value}`;
+	};
+	await root.runCompletions(makeCompArgs({ line: "" }), {
+		print,
+		compShell: "fish",
+	});
+	assertEquals(
+		log,
+		[
+			"add\tAdd file contents to the index",
+			"a\tAdd file contents to the index",
+			"annotate",
+		].join("\n"),
+	);
+});
+
+Deno.test("should reject conflicting aliases", async () => {
+	const res = await testCmd({
+		name: "git",
+		plugins: false,
+		children: [
+			{ name: "add", alias: ["a"] },
+			{ name: "apply", alias: ["a"] },
+		],
+	}, ["add"]);
+	assertEquals(res.error?.code, "ALIAS_CONFLICT");
+	assertEquals(res.exitCode, 70);
+});
+
+Deno.test("should reject ambiguous prefixes and suggest commands", async () => {
+	let ran = "";
+	const child = (name: string, prefixMatch?: boolean): CmdApi => ({
+		name,
+		prefixMatch,
+		async do() {
+			ran = name;
+			return null;
+		},
+	});
+	const root = new Cmd({
+		name: "app",
+		children: [
+			child("remove"),
+			child("rename"),
+			child("status"),
+			child("destroy", false),
+		],
+	});
+	const printErr = async () => {};
+
+	const ambiguous = await root.runWithArgs(["re"], { printErr });
+	assertEquals(ambiguous?.code, "AMBIGUOUS_COMMAND");
+	assertEquals(
+		(ambiguous?.context as { candidates: string[] }).candidates,
+		["remove", "rename"],
+	);
+
+	assertEquals(await root.runWithArgs(["ren"], { printErr }), null);
+	assertEquals(ran, "rename");
+
+	const unknown = await root.runWithArgs(["stauts"], { printErr });
+	assertEquals(unknown?.code, "UNKNOWN_COMMAND");
+	assertEquals(
+		unknown?.message,
+		'UNKNOWN_COMMAND: unknown command "stauts" for "app". Did you mean "status"?',
+	);
+
+	const noPrefix = await root.runWithArgs(["dest"], { printErr });
+	assertEquals(noPrefix?.code, "UNKNOWN_COMMAND");
+	assertEquals(await root.runWithArgs(["destroy"], { printErr }), null);
+	assertEquals(ran, "destroy");
+});
+
+Deno.test("should leave hidden commands out of help and completion", async () => {
+	let ran = false;
+	const root = new Cmd({
+		name: "app",
+		children: [
+			{ name: "status", short: "Show status" },
+			{
+				name: "gc",
+				short: "Collect garbage",
+				hidden: true,
+				async do() {
+					ran = true;
+					return null;
+				},
+			},
+			helpCmd,
+		],
+	});
+	let log = "";
+	const print = async (value: string) => {
+		log = `${log}${value}`;
+	};
+
+	await root.runWithArgs(["help"], { print });
+	assertEquals(log, "usage: app <command>\n\tstatus ← Show status\n");
+
+	log = "";
+	await root.runWithArgs(["help", "--all"], { print });
+	assertEquals(
+		log,
+		"usage: app <command>\n\tstatus ← Show status\n\tgc     ← Collect garbage\n",
+	);
+
+	log = "";
+	await root.runCompletions(makeCompArgs({ line: "" }), { print });
+	assertEquals(log, "status help");
+
+	// Hidden commands need their full name
+	const err = await root.runWithArgs(["g"], { printErr: async () => {} });
+	assertEquals(err?.code, "UNKNOWN_COMMAND");
+	assertEquals(ran, false);
+	assertEquals(await root.runWithArgs(["gc"]), null);
+	assertEquals(ran, true);
+
+	// Nor do they make a prefix ambiguous
+	const ambiguous = new Cmd({
+		name: "app",
+		children: [
+			{ name: "status" },
+			{ name: "secret", hidden: true },
+			{ name: "sub" },
+		],
+	});
+	const sErr = await ambiguous.runWithArgs(["s"], {
+		printErr: async () => {},
+	});
+	assertEquals(
+		sErr?.message,
+		'AMBIGUOUS_COMMAND: "s" could be any of status, sub',
+	);
+	assertEquals(
+		(await ambiguous.runWithArgs(["se"], { printErr: async () => {} }))
+			?.code,
+		"UNKNOWN_COMMAND",
+	);
+});
+
+Deno.test("should print versions with --version and the version command", async () => {
+	let out = "";
+	const print = async (value: string) => {
+		out = `${out}${value}`;
+	};
+	const root = new Cmd({
+		name: "app",
+		version: "1.2.0",
+		schema: { minArgs: 1 },
+		children: [
+			{
+				name: "remote",
+				version: "0.3.0-beta.1",
+				children: [{
+					name: "add",
+					async do() {
+						return null;
+					},
+				}],
+			},
+			{ name: "gc", version: "9.9.9", hidden: true },
+			versionCmd,
+		],
+	});
+
+	assertEquals(await root.runWithArgs(["--version"], { print }), null);
+	assertEquals(out, "app 1.2.0\n");
+
+	out = "";
+	await root.runWithArgs(["remote", "--version"], { print });
+	assertEquals(out, "app 1.2.0\napp remote 0.3.0-beta.1\n");
+
+	// Subcommands without a version accept the flag too
+	out = "";
+	assertEquals(
+		await root.runWithArgs(["remote", "add", "--version"], { print }),
+		null,
+	);
+	assertEquals(out, "app 1.2.0\napp remote 0.3.0-beta.1\n");
+
+	// But don't list it as inherited
+	out = "";
+	await root.runWithArgs(["remote", "add", "--help"], { print });
+	assertEquals(out.includes("--version"), false);
+
+	out = "";
+	await root.runWithArgs(["version"], { print });
+	assertEquals(out, "app 1.2.0\napp remote 0.3.0-beta.1\n");
+
+	out = "";
+	await root.runWithArgs(["version", "--json"], { print });
+	assertEquals(JSON.parse(out), {
+		name: "app",
+		version: "1.2.0",
+		commands: { "app remote": "0.3.0-beta.1" },
+		runtime: {
+			deno: Deno.version.deno,
+			v8: Deno.version.v8,
+			typescript: Deno.version.typescript,
+			os: Deno.build.os,
+			arch: Deno.build.arch,
+		},
+	});
+});
+
+Deno.test("should reject versions that aren't semver", async () => {
+	const res = await testCmd({
+		name: "app",
+		children: [{ name: "remote", version: "v1.2" }],
+	}, ["--help"]);
+	assertEquals(res.error?.code, "INVALID_VERSION");
+	assertEquals(res.exitCode, 70);
+	assertEquals(res.stdout, "");
+});
+
+Deno.test("should print focused help for a command path", async () => {
+	const root = new Cmd({
+		name: "app",
+		flags: [{
+			name: "verbose",
+			short: "v",
+			persistent: true,
+			description: "Print more",
+		}],
+		children: [
+			{
+				name: "remote",
+				short: "Manage remotes",
+				children: [
+					{
+						name: "add",
+						alias: ["a"],
+						short: "Add a remote",
+						long:
+							"Adds a remote named <name> for the repository at <url>. The remote is fetched right away unless told otherwise.",
+						schema: { params: [{ name: "name" }, { name: "url" }] },
+						flags: [{
+							name: "no-fetch",
+							description: "Skip the fetch",
+						}],
+						async do() {
+							return null;
+						},
+					},
+					{ name: "rm", short: "Remove a remote" },
+				],
+			},
+			helpCmd,
+		],
+	});
+	let log = "";
+	const print = async (value: string) => {
+		log = `${log}${value}`;
+	};
+	const addHelp = `
+usage: app remote add [flags] <name> <url>
+
+Adds a remote named <name> for the repository at <url>. The remote is fetched
+right away unless told otherwise.
+
+aliases: a
+flags:
+	    --no-fetch ← Skip the fetch
+inherited flags:
+	-v, --verbose ← Print more
+`.trimStart();
+
+	assertEquals(
+		await root.runWithArgs(["help", "remote", "a"], { print }),
+		null,
+	);
+	assertEquals(log, addHelp);
+
+	log = "";
+	assertEquals(
+		await root.runWithArgs(["remote", "add", "--help"], { print }),
+		null,
+	);
+	assertEquals(log, addHelp);
+
+	log = "";
+	await root.runWithArgs(["remote", "-h"], { print });
+	assertEquals(
+		log,
+		`
+usage: app remote [flags] <command>
+
+Manage remotes
+
+	add, a ← Add a remote
+	rm     ← Remove a remote
+inherited flags:
+	-v, --verbose ← Print more
+`.trimStart(),
+	);
+
+	const err = await root.runWithArgs(["help", "remot"], { print });
+	assertEquals(err?.code, "UNKNOWN_COMMAND");
+	assertEquals(err?.message.includes('Did you mean "remote"?'), true);
+
+	log = "";
+	await root.runCompletions(makeCompArgs({ line: "help remote " }), {
+		print,
+	});
+	assertEquals(log, "add rm");
+});
+
+Deno.test("should run hooks along the command path", async () => {
+	let calls: string[] = [];
+	const hooks = (name: string): Partial<CmdApi> => ({
+		async before() {
+			calls.push(`before ${name}`);
+			return null;
+		},
+		async after(_ctx, err) {
+			calls.push(`after ${name} ${err?.code ?? "ok"}`);
+			return null;
+		},
+	});
+	let fail = false;
+	const root = new Cmd({
+		name: "app",
+		...hooks("app"),
+		async onError(_ctx, err) {
+			calls.push(`onError app ${err.code}`);
+			return err.code === "FILE_NOT_FOUND" ? null : err;
+		},
+		children: [{
+			name: "remote",
+			...hooks("remote"),
+			async onError(_ctx, err) {
+				calls.push(`onError remote ${err.code}`);
+				return new DenzaiErr({ code: "FILE_NOT_FOUND" });
+			},
+			children: [{
+				name: "add",
+				...hooks("add"),
+				async do() {
+					calls.push("do add");
+					return fail
+						? new DenzaiErr({ code: "WRITE_FAILED" })
+						: null;
+				},
+			}],
+		}],
+	});
+
+	assertEquals(await root.runWithArgs(["remote", "add"]), null);
+	assertEquals(calls, [
+		"before app",
+		"before remote",
+		"before add",
+		"do add",
+		"after add ok",
+		"after remote ok",
+		"after app ok",
+	]);
+
+	calls = [];
+	fail = true;
+	assertEquals(await root.runWithArgs(["remote", "add"]), null);
+	assertEquals(calls, [
+		"before app",
+		"before remote",
+		"before add",
+		"do add",
+		"onError remote WRITE_FAILED",
+		"onError app FILE_NOT_FOUND",
+		"after add ok",
+		"after remote ok",
+		"after app ok",
+	]);
+});
+
+Deno.test("should run after hooks when do throws", async () => {
+	const calls: string[] = [];
+	const root = new Cmd({
+		name: "app",
+		async before() {
+			calls.push("before");
+			return null;
+		},
+		async onError(_ctx, err) {
+			calls.push(`onError ${err.code}`);
+			return err;
+		},
+		async after(_ctx, err) {
+			calls.push(`after ${err?.code}`);
+			return null;
+		},
+		async do() {
+			throw new Error("boom");
+		},
+	});
+
+	const err = await root.runWithArgs([]);
+	assertEquals(err?.code, "INTERNAL");
+	assertEquals(err?.message, "INTERNAL: boom");
+	assertEquals(calls, ["before", "onError INTERNAL", "after INTERNAL"]);
+});
+
+Deno.test("should skip do when a before hook fails", async () => {
+	const calls: string[] = [];
+	const root = new Cmd({
+		name: "app",
+		async before() {
+			calls.push("before app");
+			return new DenzaiErr({ code: "INVALID_ARGS", message: "no auth" });
+		},
+		async after(_ctx, err) {
+			calls.push(`after app ${err?.code}`);
+			return null;
+		},
+		children: [{
+			name: "sub",
+			async before() {
+				calls.push("before sub");
+				return null;
+			},
+			async after() {
+				calls.push("after sub");
+				return null;
+			},
+			async do() {
+				calls.push("do sub");
+				return null;
+			},
+		}],
+	});
+	const err = await root.runWithArgs(["sub"]);
+	assertEquals(err?.code, "INVALID_ARGS");
+	assertEquals(calls, ["before app", "after app INVALID_ARGS"]);
+});
+
+Deno.test("should create the backend lazily", async () => {
+	let created = 0;
+	const factory = () => {
+		created++;
+		return memoryBackend();
+	};
+	const root = new Cmd({
+		name: "app",
+		children: [
+			{
+				name: "save",
+				async do(ctx) {
+					const backend = await ctx.backend();
+					assertEquals(backend, await ctx.backend());
+					const err = await backend.data.write("note.txt", "hi");
+					return err ? new DenzaiErr({ code: "WRITE_FAILED" }) : null;
+				},
+			},
+			{
+				name: "noop",
+				async do() {
+					return null;
+				},
+			},
+		],
+	});
+
+	assertEquals(await root.runWithArgs(["noop"], { backend: factory }), null);
+	assertEquals(created, 0);
+
+	assertEquals(await root.runWithArgs(["save"], { backend: factory }), null);
+	assertEquals(created, 1);
+
+	const backend = memoryBackend();
+	assertEquals(await root.runWithArgs(["save"], { backend }), null);
+	assertEquals(Result.unwrap(await backend.data.read("note.txt")), "hi");
+});
+
+Deno.test("should wrap help at 80 columns when print is replaced", async () => {
+	const root: CmdApi = {
+		name: "app",
+		long:
+			"Synchronises the working tree with every configured remote and reports what changed along the way",
+	};
+	const before = (await testCmd(root, ["--help"])).stdout;
+	const columns = Deno.env.get("COLUMNS");
+	Deno.env.set("COLUMNS", "20");
+	try {
+		assertEquals((await testCmd(root, ["--help"])).stdout, before);
+	} finally {
+		if (columns === undefined) {
+			Deno.env.delete("COLUMNS");
+		} else {
+			Deno.env.set("COLUMNS", columns);
+		}
+	}
+	assertEquals(
+		before,
+		"usage: app\n\nSynchronises the working tree with every configured remote and reports what\nchanged along the way\n\n",
+	);
+});
@@ -1,4 +1,4 @@
-import type { CompArgs } from "./types.ts";
+import type { CompArgs, CompItem, CompShell } from "./types.ts";
 
 function getWordNumber(paragraph: string, charPosition: number): number | null {
 	// Ensure the charPosition is within bounds
@@ -43,3 +43,98 @@ export function makeCompArgs({ line, point }: MakeCompArgs): CompArgs {
 		args,
 	};
 }
+
+/**
+ * Formats completion candidates the way [shell] expects them. Bash gets the
+ * values joined by spaces, zsh gets `value:description` lines for `_describe`
+ * and fish gets `value\tdescription` lines.
+ */
+export function formatCompletions(items: CompItem[], shell: CompShell): string {
+	switch (shell) {
+		case "zsh":
+			return items.map(({ value, description }) => {
+				const escaped = value.replaceAll(":", "\\:");
+				return description ? `${escaped}:${description}` : escaped;
+			}).join("\n");
+		case "fish":
+			return items.map(({ value, description }) =>
+				description ? `${value}\t${description}` : value
+			).join("\n");
+		default:
+			return items.map((a) => a.value).join(" ");
+	}
+}
+
+/**
+ * Generates a bash completion script for the command [name]. The script calls
+ * back into the command with the `COMP_*` variables exported, which
+ * [Cmd.run] picks up through [bashCompArgs].
+ */
+export function bashCompScript(name: string): string {
+	const fn = `_${name.replaceAll(/[^A-Za-z0-9_]/g, "_")}_complete`;
+	return `${fn}() {
+	local IFS=$' \\t\\n'
+	COMPREPLY=($(compgen -W "$(COMP_LINE="$COMP_LINE" COMP_POINT="$COMP_POINT" COMP_CWORD="$COMP_CWORD" ${name} 2>/dev/null)" -- "\${COMP_WORDS[COMP_CWORD]}"))
+}
+
+complete -o default -F ${fn} ${name}
+`;
+}
+
+/**
+ * Generates a zsh completion script for the command [name]. The script calls
+ * back into the command with `ZSH_COMP_WORDS` and `ZSH_COMP_CURRENT` set,
+ * which [Cmd.run] picks up through [zshCompArgs]. Either `source` the output
+ * or save it as `_<name>` somewhere on `$fpath`.
+ */
+export function zshCompScript(name: string): string {
+	const fn = `_${name.replaceAll(/[^A-Za-z0-9_]/g, "_")}`;
+	return `#compdef ${name}
+compdef ${fn} ${name}
+
+${fn}() {
+	local -a completions
+	completions=(\${(f)"$(ZSH_COMP_CURRENT=$CURRENT ZSH_COMP_WORDS="\${(pj:\\n:)\${(Q)words}}" ${name} 2>/dev/null)"})
+	if (( \${#completions} )); then
+		_describe -t commands '${name}' completions
+	else
+		_files
+	fi
+}
+
+if [ "$funcstack[1]" = "${fn}" ]; then
+	${fn} "$@"
+fi
+`;
+}
+
+/**
+ * Generates a fish completion script for the command [name]. The script calls
+ * back into the command with `FISH_COMP_LINE` set, which [Cmd.run] picks up
+ * through [fishCompArgs]. Either `source` the output or save it as
+ * `<name>.fish` in a fish completions directory.
+ */
+export function fishCompScript(name: string): string {
+	const fn = `__${name.replaceAll(/[^A-Za-z0-9_]/g, "_")}_complete`;
+	return `function ${fn}
+	set -lx FISH_COMP_LINE (commandline -cp)
+	${name} 2>/dev/null
+end
+
+complete -c ${name} -f -a '(${fn})'
+`;
+}
+
+/**
+ * Generates the completion script for [shell].
+ */
+export function compScript(shell: CompShell, name: string): string {
+	switch (shell) {
+		case "bash":
+			return bashCompScript(name);
+		case "zsh":
+			return zshCompScript(name);
+		case "fish":
+			return fishCompScript(name);
+	}
+}
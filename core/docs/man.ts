@@ -0,0 +1,150 @@
+import type { Store } from "../../store/store.ts";
+import type { StoreErr } from "../../store/errors.ts";
+import type { Cmd } from "../cmd.ts";
+import { flagUsage, inheritedFlags } from "../flags.ts";
+import type { Flag } from "../types.ts";
+import { usageLine } from "../usage.ts";
+
+export interface ManOptions {
+	/** Manual section. Defaults to 1 */
+	section?: number;
+
+	/** Date shown in the footer. Defaults to today */
+	date?: Date;
+
+	/** Source shown in the footer, such as `app 1.0.0` */
+	source?: string;
+
+	/** Title shown in the header. Defaults to the root command name */
+	manual?: string;
+}
+
+/**
+ * Escapes text so that roff shows it as is.
+ */
+function escape(text: string): string {
+	return text
+		.replaceAll("\\", "\\e")
+		.replaceAll("-", "\\-")
+		.split("\n")
+		.map((line) => /^[.']/.test(line) ? `\\&${line}` : line)
+		.join("\n");
+}
+
+/**
+ * Name of the page for the last command in [path]. For example
+ * `app-sub-cmd`.
+ */
+export function manPageName(path: Cmd[]): string {
+	return path.map((a) => a.name).join("-");
+}
+
+function optionEntries(flags: Flag[]): string[] {
+	return flags.flatMap((flag) => [
+		".TP",
+		`\\fB${escape(flagUsage(flag).trim())}\\fR`,
+		escape(flag.description ?? ""),
+	]);
+}
+
+/**
+ * Renders the `man(7)` page of the last command in [path].
+ */
+export function manPage(path: Cmd[], options?: ManOptions): string {
+	const cmd = path[path.length - 1];
+	if (cmd === undefined) {
+		return "";
+	}
+	const section = options?.section ?? 1;
+	const date = (options?.date ?? new Date()).toISOString().slice(0, 10);
+	const name = manPageName(path);
+	const manual = options?.manual ?? path[0]?.name ?? name;
+	const lines = [
+		`.TH "${escape(name.toUpperCase())}" "${section}" "${date}" "${
+			escape(options?.source ?? "")
+		}" "${escape(manual)}"`,
+		".SH NAME",
+		`${escape(name)}${cmd.short ? ` \\- ${escape(cmd.short)}` : ""}`,
+		".SH SYNOPSIS",
+		`.B ${escape(path.map((a) => a.name).join(" "))}`,
+		escape(
+			usageLine(path).replace(
+				`usage: ${path.map((a) => a.name).join(" ")}`,
+				"",
+			).trim(),
+		),
+	];
+
+	const long = cmd.long || cmd.short;
+	if (long || cmd.alias.length > 0) {
+		lines.push(".SH DESCRIPTION");
+		if (long) {
+			lines.push(escape(long));
+		}
+		if (cmd.alias.length > 0) {
+			lines.push(".PP", `Aliases: ${escape(cmd.alias.join(", "))}`);
+		}
+	}
+
+	const children = cmd.children.filter((a) => !a.hidden);
+	if (children.length > 0) {
+		lines.push(".SH COMMANDS");
+		for (const child of children) {
+			lines.push(
+				".TP",
+				`\\fB${escape([child.name, ...child.alias].join(", "))}\\fR`,
+				escape(child.short ?? ""),
+			);
+		}
+	}
+
+	const inherited = inheritedFlags(path);
+	if (cmd.flags.length > 0) {
+		lines.push(".SH OPTIONS", ...optionEntries(cmd.flags));
+	}
+	if (inherited.length > 0) {
+		lines.push(".SH INHERITED OPTIONS", ...optionEntries(inherited));
+	}
+
+	const related = [
+		...(path.length > 1 ? [manPageName(path.slice(0, -1))] : []),
+		...children.map((a) => manPageName([...path, a])),
+	];
+	if (related.length > 0) {
+		lines.push(
+			".SH SEE ALSO",
+			related.map((a) => `\\fB${escape(a)}\\fR(${section})`).join(", "),
+		);
+	}
+	return `${lines.filter((a) => a.length > 0).join("\n")}\n`;
+}
+
+/**
+ * Writes a man page for every visible command under [root] to [store]. Pages
+ * are named after the command path, for example `app-sub-cmd.1`.
+ */
+export async function genManPages(
+	root: Cmd,
+	store: Store,
+	options?: ManOptions,
+): Promise<StoreErr | null> {
+	const section = options?.section ?? 1;
+	const queue: Cmd[][] = [[root]];
+	while (queue.length > 0) {
+		const path = queue.shift()!;
+		const cmd = path[path.length - 1]!;
+		const err = await store.write(
+			`${manPageName(path)}.${section}`,
+			manPage(path, options),
+		);
+		if (err) {
+			return err;
+		}
+		for (const child of cmd.children) {
+			if (!child.hidden) {
+				queue.push([...path, child]);
+			}
+		}
+	}
+	return null;
+}
@@ -0,0 +1,66 @@
+import { assertEquals } from "@std/assert";
+import { memoryStore } from "../../store/memory_store.ts";
+import { Result } from "../../utils/mod.ts";
+import { Cmd } from "../cmd.ts";
+import { genManPages } from "./man.ts";
+
+const root = new Cmd({
+	name: "app",
+	short: "Manage things",
+	flags: [{
+		name: "verbose",
+		short: "v",
+		persistent: true,
+		description: "Print more",
+	}],
+	children: [
+		{
+			name: "remote",
+			short: "Manage remotes",
+			children: [
+				{
+					name: "add",
+					alias: ["a"],
+					short: "Add a remote",
+					long: "Adds a remote.\n.Dots are escaped",
+					schema: { params: [{ name: "name" }, { name: "url" }] },
+				},
+			],
+		},
+		{ name: "gc", hidden: true },
+	],
+});
+
+Deno.test("should write a man page per command", async () => {
+	const store = memoryStore();
+	const date = new Date("2024-01-02");
+	assertEquals(await genManPages(root, store, { date }), null);
+	assertEquals(Result.unwrap(await store.readdir("/")), [
+		"app-remote-add.1",
+		"app-remote.1",
+		"app.1",
+	]);
+
+	const page = Result.unwrap(await store.read("app-remote-add.1"));
+	assertEquals(
+		page,
+		`.TH "APP\\-REMOTE\\-ADD" "1" "2024-01-02" "" "app"
+.SH NAME
+app\\-remote\\-add \\- Add a remote
+.SH SYNOPSIS
+.B app remote add
+[flags] <name> <url>
+.SH DESCRIPTION
+Adds a remote.
+\\&.Dots are escaped
+.PP
+Aliases: a
+.SH INHERITED OPTIONS
+.TP
+\\fB\\-v, \\-\\-verbose\\fR
+Print more
+.SH SEE ALSO
+\\fBapp\\-remote\\fR(1)
+`,
+	);
+});
@@ -0,0 +1,163 @@
+import type { StoreErr } from "../../store/errors.ts";
+import type { Store } from "../../store/store.ts";
+import type { Cmd } from "../cmd.ts";
+import { flagUsage, inheritedFlags } from "../flags.ts";
+import { paramType, paramUsage } from "../params.ts";
+import type { Flag } from "../types.ts";
+import { usageLine } from "../usage.ts";
+
+/**
+ * File name of the page for the last command in [path]. For example
+ * `app-sub-cmd.md`.
+ */
+export function markdownFileName(path: Cmd[]): string {
+	return `${path.map((a) => a.name).join("-")}.md`;
+}
+
+function cell(text: string): string {
+	return text.replaceAll("|", "\\|").replaceAll("\n", " ");
+}
+
+function link(path: Cmd[]): string {
+	return `[${path.map((a) => a.name).join(" ")}](${markdownFileName(path)})`;
+}
+
+function flagTable(flags: Flag[]): string[] {
+	return [
+		"| Flag | Description |",
+		"| --- | --- |",
+		...flags.map((flag) =>
+			`| \`${flagUsage(flag).trim()}\` | ${
+				cell(flag.description ?? "")
+			} |`
+		),
+	];
+}
+
+/**
+ * Renders the Markdown page of the last command in [path].
+ */
+export function markdownPage(path: Cmd[]): string {
+	const cmd = path[path.length - 1];
+	if (cmd === undefined) {
+		return "";
+	}
+	const sections: string[][] = [[`# ${path.map((a) => a.name).join(" ")}`]];
+	if (cmd.short) {
+		sections.push([cmd.short]);
+	}
+	sections.push([
+		"## Usage",
+		"",
+		"```",
+		usageLine(path).replace(/^usage: /, ""),
+		"```",
+	]);
+	if (cmd.long) {
+		sections.push([cmd.long]);
+	}
+	if (cmd.alias.length > 0) {
+		sections.push([
+			`**Aliases:** ${cmd.alias.map((a) => `\`${a}\``).join(", ")}`,
+		]);
+	}
+
+	const params = cmd.schema.params ?? [];
+	if (params.length > 0) {
+		sections.push([
+			"## Arguments",
+			"",
+			"| Argument | Type | Description |",
+			"| --- | --- | --- |",
+			...params.map((param) => {
+				const type = param.choices
+					? param.choices.map((a) => `\`${a}\``).join(", ")
+					: paramType(param);
+				return `| \`${paramUsage(param)}\` | ${cell(type)} | ${
+					cell(param.description ?? "")
+				} |`;
+			}),
+		]);
+	}
+
+	const children = cmd.children.filter((a) => !a.hidden);
+	if (children.length > 0) {
+		sections.push([
+			"## Commands",
+			"",
+			"| Command | Aliases | Description |",
+			"| --- | --- | --- |",
+			...children.map((child) =>
+				`| ${link([...path, child])} | ${
+					child.alias.map((a) => `\`${a}\``).join(", ")
+				} | ${cell(child.short ?? "")} |`
+			),
+		]);
+	}
+
+	if (cmd.flags.length > 0) {
+		sections.push(["## Flags", "", ...flagTable(cmd.flags)]);
+	}
+	const inherited = inheritedFlags(path);
+	if (inherited.length > 0) {
+		sections.push(["## Inherited flags", "", ...flagTable(inherited)]);
+	}
+
+	const parent = path.slice(0, -1);
+	sections.push([
+		parent.length > 0
+			? `See also: ${link(parent)} · [Index](index.md)`
+			: "See also: [Index](index.md)",
+	]);
+	return `${sections.map((a) => a.join("\n")).join("\n\n")}\n`;
+}
+
+/**
+ * Renders the index page linking every visible command under [root].
+ */
+export function markdownIndex(root: Cmd): string {
+	const lines: string[] = [];
+	const walk = (path: Cmd[], depth: number) => {
+		const cmd = path[path.length - 1]!;
+		const short = cmd.short ? ` — ${cmd.short}` : "";
+		lines.push(`${"  ".repeat(depth)}- ${link(path)}${short}`);
+		for (const child of cmd.children) {
+			if (!child.hidden) {
+				walk([...path, child], depth + 1);
+			}
+		}
+	};
+	walk([root], 0);
+	const intro = root.long || root.short;
+	return `# ${root.name}\n\n${intro ? `${intro}\n\n` : ""}${
+		lines.join("\n")
+	}\n`;
+}
+
+/**
+ * Writes a Markdown page for every visible command under [root] to [store],
+ * plus an `index.md` linking them together.
+ */
+export async function genMarkdownDocs(
+	root: Cmd,
+	store: Store,
+): Promise<StoreErr | null> {
+	const queue: Cmd[][] = [[root]];
+	while (queue.length > 0) {
+		const path = queue.shift()!;
+		const cmd = path[path.length - 1]!;
+		const err = await store.write(
+			markdownFileName(path),
+			markdownPage(path),
+		);
+		if (err) {
+			return err;
+		}
+		for (const child of cmd.children) {
+			if (!child.hidden) {
+				queue.push([...path, child]);
+			}
+		}
+	}
+	return await store.write("index.md", markdownIndex(root));
+}
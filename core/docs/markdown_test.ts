@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { memoryStore } from "../../store/memory_store.ts";
+import { Result } from "../../utils/mod.ts";
+import { Cmd } from "../cmd.ts";
+import { genMarkdownDocs } from "./markdown.ts";
+
+const root = new Cmd({
+	name: "app",
+	short: "Manage things",
+	flags: [{
+		name: "verbose",
+		short: "v",
+		persistent: true,
+		description: "Print more",
+	}],
+	children: [
+		{
+			name: "remote",
+			short: "Manage remotes",
+			children: [
+				{
+					name: "add",
+					alias: ["a"],
+					short: "Add a remote",
+					long: "Adds a remote to the list.",
+					schema: {
+						params: [
+							{ name: "name", description: "Name of the remote" },
+							{
+								name: "kind",
+								type: "enum",
+								choices: ["git", "http"],
+							},
+						],
+					},
+				},
+			],
+		},
+		{ name: "gc", hidden: true },
+	],
+});
+
+Deno.test("should write a page per command and an index", async () => {
+	const store = memoryStore();
+	assertEquals(await genMarkdownDocs(root, store), null);
+	assertEquals(Result.unwrap(await store.readdir("/")), [
+		"app-remote-add.md",
+		"app-remote.md",
+		"app.md",
+		"index.md",
+	]);
+
+	assertEquals(
+		Result.unwrap(await store.read("index.md")),
+		`# app
+
+Manage things
+
+- [app](app.md) — Manage things
+  - [app remote](app-remote.md) — Manage remotes
+    - [app remote add](app-remote-add.md) — Add a remote
+`,
+	);
+
+	assertEquals(
+		Result.unwrap(await store.read("app-remote-add.md")),
+		`# app remote add
+
+Add a remote
+
+## Usage
+
+\`\`\`
+app remote add [flags] <name> <kind>
+\`\`\`
+
+Adds a remote to the list.
+
+**Aliases:** \`a\`
+
+## Arguments
+
+| Argument | Type | Description |
+| --- | --- | --- |
+| \`<name>\` | string | Name of the remote |
+| \`<kind>\` | \`git\`, \`http\` |  |
+
+## Inherited flags
+
+| Flag | Description |
+| --- | --- |
+| \`-v, --verbose\` | Print more |
+
+See also: [app remote](app-remote.md) · [Index](index.md)
+`,
+	);
+});
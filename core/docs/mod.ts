@@ -0,0 +1,2 @@
+export * from "./man.ts";
+export * from "./markdown.ts";
@@ -1,8 +1,21 @@
 export type DenzaiCode =
+	| "ALIAS_CONFLICT"
+	| "AMBIGUOUS_COMMAND"
+	| "CANCELLED"
 	| "EXE_NOT_FOUND"
 	| "FILE_NOT_FOUND"
+	| "INTERNAL"
+	| "INVALID_ARGS"
+	| "INVALID_FLAG"
+	| "INVALID_VERSION"
 	| "PARENT_EXPECTED"
-	| "INVARIANT";
+	| "PLUGIN_FAILED"
+	| "PROMPT_CANCELLED"
+	| "PROMPT_UNAVAILABLE"
+	| "TIMEOUT"
+	| "UNKNOWN_COMMAND"
+	| "INVARIANT"
+	| "WRITE_FAILED";
 
 function getCallerInfo(n: number = 2): string | null {
 	const err = new Error();
@@ -55,6 +68,21 @@ export class DenzaiErr extends Error {
 		});
 	}
 
+	/**
+	 * Wraps a thrown value as an `INTERNAL` error unless it already is a
+	 * [DenzaiErr].
+	 */
+	static from(error: unknown): DenzaiErr {
+		if (error instanceof DenzaiErr) {
+			return error;
+		}
+		return new DenzaiErr({
+			code: "INTERNAL",
+			message: error instanceof Error ? error.message : String(error),
+			context: { cause: error },
+		});
+	}
+
 	constructor(
 		options: { code: DenzaiCode; message?: string; context?: unknown },
 	) {
@@ -65,4 +93,46 @@ export class DenzaiErr extends Error {
 			: options.code;
 		this.context = options.context;
 	}
+
+	desc(): string {
+		const c = this.code as DenzaiCode;
+		switch (c) {
+			case "ALIAS_CONFLICT":
+				return "Two commands may be invoked by the same name.";
+			case "AMBIGUOUS_COMMAND":
+				return "The command name matches more than one command.";
+			case "CANCELLED":
+				return "The command was interrupted before it finished.";
+			case "EXE_NOT_FOUND":
+				return "The executable could not be found.";
+			case "FILE_NOT_FOUND":
+				return "The specified file could not be found.";
+			case "INTERNAL":
+				return "An unexpected internal error has occurred.";
+			case "INVALID_ARGS":
+				return "The arguments do not match what the command expects.";
+			case "INVALID_FLAG":
+				return "A flag is unknown, missing or has an invalid value.";
+			case "INVALID_VERSION":
+				return "The version is not a semantic version.";
+			case "PARENT_EXPECTED":
+				return "The command expected to have a parent command.";
+			case "PLUGIN_FAILED":
+				return "The plugin exited with a failure.";
+			case "PROMPT_CANCELLED":
+				return "The prompt was cancelled before it was answered.";
+			case "PROMPT_UNAVAILABLE":
+				return "An answer is needed but the input is not interactive.";
+			case "TIMEOUT":
+				return "The command did not finish within its timeout.";
+			case "UNKNOWN_COMMAND":
+				return "The command could not be found.";
+			case "INVARIANT":
+				return "An invariant violation has occurred.";
+			case "WRITE_FAILED":
+				return "The output could not be written.";
+			default:
+				return absurd(c);
+		}
+	}
 }
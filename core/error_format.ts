@@ -0,0 +1,286 @@
+import { BaseErr } from "../utils/errors.ts";
+import { DenzaiErr } from "./error.ts";
+import type { Flag } from "./types.ts";
+
+/**
+ * How errors are rendered. "human" is for people at a terminal and "json" for
+ * tooling wrapping the CLI.
+ */
+export type ErrorFormat = "human" | "json";
+
+/**
+ * Persistent flag to add to the root command to let callers pick the
+ * [ErrorFormat]. [runMain] honours it.
+ */
+export const errorFormatFlag: Flag = {
+	name: "error-format",
+	type: "string",
+	persistent: true,
+	description: "Render errors as human or json",
+};
+
+export interface FormatErrOptions {
+	/** Nesting shown before objects are summarized. Defaults to 3 */
+	maxDepth?: number;
+
+	/** Entries shown per object or array. Defaults to 10 */
+	maxItems?: number;
+
+	/** Characters shown per string. Defaults to 200 */
+	maxLength?: number;
+}
+
+/**
+ * Error reduced to plain data.
+ */
+export type ErrReport = {
+	code: string;
+	message: string;
+	desc: string | null;
+	context: unknown;
+	hints: string[];
+};
+
+export function parseErrorFormat(value: unknown): ErrorFormat | null {
+	return value === "human" || value === "json" ? value : null;
+}
+
+/**
+ * Picks the error format out of raw arguments. Used when the arguments could
+ * not be parsed.
+ */
+export function errorFormatFromArgs(args: string[]): ErrorFormat | null {
+	const flag = `--${errorFormatFlag.name}`;
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]!;
+		if (arg === "--") {
+			break;
+		}
+		if (arg === flag) {
+			return parseErrorFormat(args[i + 1]);
+		}
+		if (arg.startsWith(`${flag}=`)) {
+			return parseErrorFormat(arg.slice(flag.length + 1));
+		}
+	}
+	return null;
+}
+
+/**
+ * Copies [value] into plain JSON data. Long strings, big collections and deep
+ * nesting are summarized so that blobs such as the serialized file system of
+ * a `MemoryFs` don't drown out the error.
+ */
+export function summarize(
+	value: unknown,
+	options?: FormatErrOptions,
+): unknown {
+	const maxDepth = options?.maxDepth ?? 3;
+	const maxItems = options?.maxItems ?? 10;
+	const maxLength = options?.maxLength ?? 200;
+	const seen = new Set<unknown>();
+
+	const walk = (value: unknown, depth: number): unknown => {
+		switch (typeof value) {
+			case "string":
+				return value.length > maxLength
+					? `${value.slice(0, maxLength)}… (${value.length} chars)`
+					: value;
+			case "number":
+			case "boolean":
+				return value;
+			case "bigint":
+				return value.toString();
+			case "function":
+				return `[Function ${value.name || "anonymous"}]`;
+			case "symbol":
+				return value.toString();
+			case "undefined":
+				return null;
+		}
+		if (value === null) {
+			return null;
+		}
+		if (value instanceof Date) {
+			return value.toISOString();
+		}
+		if (ArrayBuffer.isView(value)) {
+			return `[${value.constructor.name}(${value.byteLength} bytes)]`;
+		}
+		if (seen.has(value)) {
+			return "[Circular]";
+		}
+		if (value instanceof Error) {
+			return walk(
+				{
+					name: value.name,
+					message: value.message,
+					...(value instanceof BaseErr || value instanceof DenzaiErr
+						? { code: value.code, context: value.context }
+						: {}),
+				},
+				depth,
+			);
+		}
+
+		const entries: [string, unknown][] = Array.isArray(value)
+			? value.map((a, i) => [String(i), a])
+			: value instanceof Map
+			? [...value.entries()].map(([k, v]) => [String(k), v])
+			: value instanceof Set
+			? [...value].map((a, i) => [String(i), a])
+			: Object.entries(value as object);
+		const isList = Array.isArray(value) || value instanceof Set;
+		if (depth >= maxDepth && entries.length > 0) {
+			return isList
+				? `[… ${entries.length} items]`
+				: `{… ${entries.length} keys}`;
+		}
+
+		seen.add(value);
+		const shown = entries.slice(0, maxItems).map((
+			[k, v],
+		) => [k, walk(v, depth + 1)] as const);
+		seen.delete(value);
+		const more = entries.length - shown.length;
+		if (isList) {
+			const items: unknown[] = shown.map(([, v]) => v);
+			if (more > 0) {
+				items.push(`… ${more} more`);
+			}
+			return items;
+		}
+		const obj: Record<string, unknown> = Object.fromEntries(shown);
+		if (more > 0) {
+			obj["…"] = `${more} more keys`;
+		}
+		return obj;
+	};
+	return walk(value, 0);
+}
+
+/**
+ * Reduces any thrown or returned error to an [ErrReport]. Usage lines,
+ * suggestions and hints found in the context become hints.
+ */
+export function errReport(
+	err: unknown,
+	options?: FormatErrOptions,
+): ErrReport {
+	if (err instanceof DenzaiErr || err instanceof BaseErr) {
+		const context = err.context as Record<string, unknown> | undefined;
+		const hints: string[] = [];
+		if (typeof context?.["usage"] === "string") {
+			hints.push(context["usage"]);
+		}
+		if (Array.isArray(context?.["hints"])) {
+			hints.push(...context["hints"].map(String));
+		}
+		return {
+			code: err.code,
+			message: err.message,
+			desc: err.desc(),
+			context: summarize(err.context, options),
+			hints,
+		};
+	}
+	if (err instanceof Error) {
+		return {
+			code: "INTERNAL",
+			message: `INTERNAL: ${err.message}`,
+			desc: null,
+			context: null,
+			hints: [],
+		};
+	}
+	return {
+		code: "INTERNAL",
+		message: `INTERNAL: ${String(err)}`,
+		desc: null,
+		context: null,
+		hints: [],
+	};
+}
+
+function isScalar(value: unknown): boolean {
+	return value === null || typeof value !== "object";
+}
+
+function treeLines(value: unknown, indent: string): string[] {
+	if (isScalar(value)) {
+		return [`${indent}${String(value)}`];
+	}
+	const lines: string[] = [];
+	const entries = Array.isArray(value)
+		? value.map((a) => ["-", a] as const)
+		: Object.entries(value as Record<string, unknown>).map((
+			[k, v],
+		) => [`${k}:`, v] as const);
+	for (const [label, v] of entries) {
+		if (isScalar(v)) {
+			lines.push(`${indent}${label} ${String(v)}`);
+		} else if (Array.isArray(v) && v.every(isScalar)) {
+			lines.push(`${indent}${label} ${JSON.stringify(v)}`);
+		} else if (Object.keys(v as object).length === 0) {
+			lines.push(`${indent}${label} {}`);
+		} else {
+			lines.push(`${indent}${label}`, ...treeLines(v, `${indent}  `));
+		}
+	}
+	return lines;
+}
+
+/**
+ * Renders [err] for people. Shows the message, the description of the code,
+ * the context as an indented tree and the hints.
+ */
+export function formatHumanErr(
+	err: unknown,
+	options?: FormatErrOptions,
+): string {
+	const report = errReport(err, options);
+	const lines = [report.message];
+	if (report.desc) {
+		lines.push(report.desc);
+	}
+	let context = report.context;
+	if (context !== null && typeof context === "object") {
+		// Already shown as hints
+		const { usage: _usage, hints: _hints, ...rest } = context as Record<
+			string,
+			unknown
+		>;
+		context = Array.isArray(context) ? context : rest;
+	}
+	if (isScalar(context)) {
+		if (context !== null) {
+			lines.push(`context: ${String(context)}`);
+		}
+	} else if (Object.keys(context as object).length > 0) {
+		lines.push("context:", ...treeLines(context, "  "));
+	}
+	for (const hint of report.hints) {
+		lines.push(hint.startsWith("usage:") ? hint : `hint: ${hint}`);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Renders [err] as a single line of JSON holding an [ErrReport].
+ */
+export function formatJsonErr(
+	err: unknown,
+	options?: FormatErrOptions,
+): string {
+	return `${JSON.stringify(errReport(err, options))}\n`;
+}
+
+export function formatErr(
+	err: unknown,
+	format: ErrorFormat,
+	options?: FormatErrOptions,
+): string {
+	return format === "json"
+		? formatJsonErr(err, options)
+		: formatHumanErr(err, options);
+}
@@ -0,0 +1,69 @@
+import { assertEquals } from "@std/assert";
+import { memoryStore } from "../store/memory_store.ts";
+import { DenzaiErr } from "./error.ts";
+import {
+	errorFormatFromArgs,
+	formatHumanErr,
+	summarize,
+} from "./error_format.ts";
+
+Deno.test("should summarize big and deep values", () => {
+	assertEquals(
+		summarize({
+			list: Array.from({ length: 12 }, (_, i) => i),
+			deep: { a: { b: { c: 1 } } },
+			text: "x".repeat(5),
+		}, { maxLength: 3 }),
+		{
+			list: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, "… 2 more"],
+			deep: { a: { b: "{… 1 keys}" } },
+			text: "xxx… (5 chars)",
+		},
+	);
+});
+
+Deno.test("should keep the memory fs out of rendered store errors", async () => {
+	const store = memoryStore();
+	for (let i = 0; i < 20; i++) {
+		await store.write(`dir/file-${i}.txt`, "content");
+	}
+	const res = await store.read("missing.txt");
+	assertEquals(res.success, false);
+	if (res.success) {
+		return;
+	}
+	const text = formatHumanErr(res.error);
+	assertEquals(text.startsWith("FILE_NOT_FOUND: "), true);
+	assertEquals(text.includes("The specified file could not be found."), true);
+	assertEquals(text.includes("content"), false);
+	assertEquals(text.split("\n").length < 30, true);
+});
+
+Deno.test("should render hints from the context", () => {
+	const err = new DenzaiErr({
+		code: "UNKNOWN_COMMAND",
+		message: "unknown command",
+		context: {
+			name: "x",
+			usage: "usage: app <command>",
+			hints: ["Try app help"],
+		},
+	});
+	assertEquals(
+		formatHumanErr(err),
+		`
+UNKNOWN_COMMAND: unknown command
+The command could not be found.
+context:
+  name: x
+usage: app <command>
+hint: Try app help
+`.trimStart(),
+	);
+});
+
+Deno.test("should find the error format in raw arguments", () => {
+	assertEquals(errorFormatFromArgs(["a", "--error-format", "json"]), "json");
+	assertEquals(errorFormatFromArgs(["--error-format=human"]), "human");
+	assertEquals(errorFormatFromArgs(["--", "--error-format=json"]), null);
+});
@@ -0,0 +1,281 @@
+import type { Cmd } from "./cmd.ts";
+import { DenzaiErr } from "./error.ts";
+import { Err, Ok, type Result } from "./funcs.ts";
+import type { Flag, Flags, FlagType, FlagValue } from "./types.ts";
+
+export interface ParseFlagsOptions {
+	/**
+	 * Stop parsing at the first positional argument. The positional and
+	 * everything after it is returned untouched. Used to pick up flags given
+	 * before a subcommand.
+	 */
+	stopAtPositional?: boolean;
+}
+
+export type ParsedFlags = {
+	/** Flags found in the arguments. Defaults are not applied */
+	flags: Flags;
+
+	/** Positional arguments left over */
+	args: string[];
+};
+
+export function flagType(flag: Flag): FlagType {
+	return flag.type ?? "boolean";
+}
+
+function invalidFlag(
+	message: string,
+	context: { flag: string; args: string[] },
+): DenzaiErr {
+	return new DenzaiErr({ code: "INVALID_FLAG", message, context });
+}
+
+function convert(
+	flag: Flag,
+	value: string,
+	args: string[],
+): Result<FlagValue, DenzaiErr> {
+	switch (flagType(flag)) {
+		case "number": {
+			const n = Number(value);
+			if (value.trim().length === 0 || Number.isNaN(n)) {
+				return Err(
+					invalidFlag(
+						`--${flag.name} expects a number, got "${value}"`,
+						{
+							flag: flag.name,
+							args,
+						},
+					),
+				);
+			}
+			return Ok(n);
+		}
+		case "list":
+			return Ok([value]);
+		default:
+			return Ok(value);
+	}
+}
+
+const NEGATIVE_NUMBER = /^-\d+(\.\d+)?$/;
+
+/**
+ * Merges flags from [source] into [target]. List values are concatenated so
+ * that repeated flags accumulate.
+ */
+export function mergeFlags(target: Flags, source: Flags): Flags {
+	for (const [key, value] of Object.entries(source)) {
+		const prev = target[key];
+		if (Array.isArray(prev) && Array.isArray(value)) {
+			target[key] = [...prev, ...value];
+		} else {
+			target[key] = value;
+		}
+	}
+	return target;
+}
+
+/**
+ * Parses [args] against the [defs] following GNU conventions. Options and
+ * positionals may be interleaved and `--` marks the end of options. Negative
+ * numbers such as `-1` are positionals unless a short flag named after the
+ * digit exists.
+ */
+export function parseFlags(
+	defs: Flag[],
+	args: string[],
+	options?: ParseFlagsOptions,
+): Result<ParsedFlags, DenzaiErr> {
+	const stopAtPositional = options?.stopAtPositional ?? false;
+	const flags: Flags = {};
+	const rest: string[] = [];
+
+	const set = (flag: Flag, value: string | true) => {
+		if (value === true) {
+			flags[flag.name] = true;
+			return null;
+		}
+		const res = convert(flag, value, args);
+		if (!res.success) {
+			return res.error;
+		}
+		mergeFlags(flags, { [flag.name]: res.value });
+		return null;
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]!;
+		if (arg === "--") {
+			// Leave the marker in place so the final parse sees it as well
+			rest.push(...args.slice(stopAtPositional ? i : i + 1));
+			break;
+		}
+
+		if (arg.startsWith("--")) {
+			const eq = arg.indexOf("=");
+			const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+			const flag = defs.find((a) => a.name === name);
+			if (flag === undefined) {
+				return Err(
+					invalidFlag(`unknown flag --${name}`, { flag: name, args }),
+				);
+			}
+			if (flagType(flag) === "boolean") {
+				if (eq !== -1) {
+					return Err(
+						invalidFlag(`--${name} does not take a value`, {
+							flag: name,
+							args,
+						}),
+					);
+				}
+				set(flag, true);
+				continue;
+			}
+			const value = eq === -1 ? args[++i] : arg.slice(eq + 1);
+			if (value === undefined) {
+				return Err(
+					invalidFlag(`--${name} requires a value`, {
+						flag: name,
+						args,
+					}),
+				);
+			}
+			const err = set(flag, value);
+			if (err) {
+				return Err(err);
+			}
+			continue;
+		}
+
+		const isNumber = NEGATIVE_NUMBER.test(arg) &&
+			!defs.some((a) => a.short === arg[1]);
+		if (arg.startsWith("-") && arg.length > 1 && !isNumber) {
+			for (let j = 1; j < arg.length; j++) {
+				const short = arg[j]!;
+				const flag = defs.find((a) => a.short === short);
+				if (flag === undefined) {
+					return Err(
+						invalidFlag(`unknown flag -${short}`, {
+							flag: short,
+							args,
+						}),
+					);
+				}
+				if (flagType(flag) === "boolean") {
+					set(flag, true);
+					continue;
+				}
+				const attached = arg.slice(j + 1);
+				const value = attached.length > 0 ? attached : args[++i];
+				if (value === undefined) {
+					return Err(
+						invalidFlag(`-${short} requires a value`, {
+							flag: flag.name,
+							args,
+						}),
+					);
+				}
+				const err = set(flag, value);
+				if (err) {
+					return Err(err);
+				}
+				break;
+			}
+			continue;
+		}
+
+		if (stopAtPositional) {
+			rest.push(...args.slice(i));
+			break;
+		}
+		rest.push(arg);
+	}
+
+	return Ok({ flags, args: rest });
+}
+
+/**
+ * Persistent flags declared by the ancestors of the last command in [path].
+ * Flags closer to the command shadow flags of the same name further up.
+ */
+export function inheritedFlags(path: Cmd[]): Flag[] {
+	const cmd = path[path.length - 1];
+	const seen = new Set(cmd?.flags.map((a) => a.name) ?? []);
+	const flags: Flag[] = [];
+	for (const ancestor of path.slice(0, -1).reverse()) {
+		for (const flag of ancestor.flags) {
+			if (flag.persistent && !seen.has(flag.name)) {
+				seen.add(flag.name);
+				flags.unshift(flag);
+			}
+		}
+	}
+	return flags;
+}
+
+/**
+ * Flags accepted by the last command in [path]. Local flags come first
+ * followed by the inherited ones.
+ */
+export function flagScope(path: Cmd[]): Flag[] {
+	const cmd = path[path.length - 1];
+	return [...(cmd?.flags ?? []), ...inheritedFlags(path)];
+}
+
+/**
+ * Describes how a flag is used. For example `-o, --output <string>`.
+ */
+export function flagUsage(flag: Flag): string {
+	const short = flag.short ? `-${flag.short}, ` : "    ";
+	const type = flagType(flag);
+	const value = type === "boolean" ? "" : ` <${type}>`;
+	return `${short}--${flag.name}${value}`;
+}
+
+/**
+ * Default values for the flags. Booleans default to false and lists to an
+ * empty list unless told otherwise.
+ */
+export function flagDefaults(defs: Flag[]): Flags {
+	const flags: Flags = {};
+	for (const flag of defs) {
+		const type = flagType(flag);
+		if (flag.default !== undefined) {
+			flags[flag.name] = Array.isArray(flag.default)
+				? [...flag.default]
+				: flag.default;
+		} else if (type === "boolean") {
+			flags[flag.name] = false;
+		} else if (type === "list") {
+			flags[flag.name] = [];
+		}
+	}
+	return flags;
+}
+
+/**
+ * Checks that every required flag was given.
+ */
+export function checkRequired(
+	defs: Flag[],
+	flags: Flags,
+): DenzaiErr | null {
+	for (const flag of defs) {
+		if (!flag.required) {
+			continue;
+		}
+		const value = flags[flag.name];
+		if (
+			value === undefined || (Array.isArray(value) && value.length === 0)
+		) {
+			return invalidFlag(`--${flag.name} is required`, {
+				flag: flag.name,
+				args: [],
+			});
+		}
+	}
+	return null;
+}
@@ -0,0 +1,95 @@
+import { assertEquals } from "@std/assert";
+import { parseFlags } from "./flags.ts";
+import type { Flag } from "./types.ts";
+
+const flags: Flag[] = [
+	{ name: "verbose", short: "v" },
+	{ name: "all", short: "a" },
+	{ name: "output", short: "o", type: "string" },
+	{ name: "count", short: "c", type: "number" },
+	{ name: "tag", short: "t", type: "list" },
+];
+
+Deno.test("should parse long and short flags", () => {
+	const res = parseFlags(flags, [
+		"--verbose",
+		"-o",
+		"out.txt",
+		"file",
+		"--count=3",
+	]);
+	assertEquals(res, {
+		success: true,
+		value: {
+			flags: { verbose: true, output: "out.txt", count: 3 },
+			args: ["file"],
+		},
+	});
+});
+
+Deno.test("should parse bundled short flags and attached values", () => {
+	const res = parseFlags(flags, ["-vaofile.txt", "-t", "a", "--tag=b"]);
+	assertEquals(res, {
+		success: true,
+		value: {
+			flags: {
+				verbose: true,
+				all: true,
+				output: "file.txt",
+				tag: ["a", "b"],
+			},
+			args: [],
+		},
+	});
+});
+
+Deno.test("should treat everything after -- as positional", () => {
+	const res = parseFlags(flags, ["-v", "--", "-a", "--count"]);
+	assertEquals(res, {
+		success: true,
+		value: { flags: { verbose: true }, args: ["-a", "--count"] },
+	});
+});
+
+Deno.test("should stop at the first positional when asked", () => {
+	const res = parseFlags(flags, ["-v", "sub", "-a"], {
+		stopAtPositional: true,
+	});
+	assertEquals(res, {
+		success: true,
+		value: { flags: { verbose: true }, args: ["sub", "-a"] },
+	});
+});
+
+Deno.test("should take negative numbers as values and positionals", () => {
+	const res = parseFlags(flags, ["--count", "-1", "-c", "-2.5", "-3"]);
+	assertEquals(res, {
+		success: true,
+		value: { flags: { count: -2.5 }, args: ["-3"] },
+	});
+
+	// Unless a short flag is named after the digit
+	const digit = parseFlags([{ name: "one", short: "1" }], ["-1"]);
+	assertEquals(digit, {
+		success: true,
+		value: { flags: { one: true }, args: [] },
+	});
+});
+
+Deno.test("should reject unknown flags and bad values", () => {
+	for (
+		const args of [
+			["--nope"],
+			["-x"],
+			["--output"],
+			["--count", "three"],
+			["--verbose=yes"],
+		]
+	) {
+		const res = parseFlags(flags, args);
+		assertEquals(res.success, false);
+		if (!res.success) {
+			assertEquals(res.error.code, "INVALID_FLAG");
+		}
+	}
+});
@@ -10,3 +10,109 @@ export function Ok<T>(value: T): Result<T, never> {
 export function Err<E>(error: E): Result<never, E> {
 	return { success: false, error };
 }
+
+/**
+ * Number of single character edits needed to turn [a] into [b].
+ */
+export function editDistance(a: string, b: string): number {
+	let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const cur = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			cur[j] = Math.min(
+				prev[j]! + 1,
+				cur[j - 1]! + 1,
+				prev[j - 1]! + cost,
+			);
+		}
+		prev = cur;
+	}
+	return prev[b.length]!;
+}
+
+/**
+ * Picks the [candidates] close enough to [word] to be what was meant, closest
+ * first.
+ */
+export function suggest(
+	word: string,
+	candidates: string[],
+	maxDistance = 2,
+): string[] {
+	return candidates
+		.map((value) => ({ value, distance: editDistance(word, value) }))
+		.filter((a) => a.distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance)
+		.map((a) => a.value);
+}
+
+const SEMVER =
+	/^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Checks that [version] is a semantic version such as `1.2.3`,
+ * `1.0.0-rc.1` or `1.0.0+build.5`.
+ */
+export function isSemver(version: string): boolean {
+	return SEMVER.test(version);
+}
+
+/**
+ * Wraps [text] on word boundaries so that no line is longer than [width],
+ * unless a single word is. Line breaks already in the text are kept.
+ */
+export function wrapText(text: string, width: number): string {
+	return text.split("\n").map((paragraph) => {
+		const lines: string[] = [];
+		let line = "";
+		for (const word of paragraph.split(/\s+/).filter((a) => a.length)) {
+			if (line.length === 0) {
+				line = word;
+			} else if (line.length + 1 + word.length <= width) {
+				line = `${line} ${word}`;
+			} else {
+				lines.push(line);
+				line = word;
+			}
+		}
+		lines.push(line);
+		return lines.join("\n");
+	}).join("\n");
+}
+
+/**
+ * Scores how well [query] matches [text] when its characters appear in order,
+ * ignoring case. Lower is better. Null when it doesn't match at all.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+	const q = query.toLowerCase();
+	const t = text.toLowerCase();
+	let score = 0;
+	let last = -1;
+	for (const char of q) {
+		const i = t.indexOf(char, last + 1);
+		if (i === -1) {
+			return null;
+		}
+		// Gaps between matched characters make for a worse match
+		score += last === -1 ? i : i - last - 1;
+		last = i;
+	}
+	return score;
+}
+
+/**
+ * Keeps the [items] whose label fuzzy matches [query], best match first.
+ */
+export function fuzzyFilter<T>(
+	query: string,
+	items: readonly T[],
+	label: (item: T) => string,
+): T[] {
+	return items
+		.map((item) => ({ item, score: fuzzyScore(query, label(item)) }))
+		.filter((a): a is { item: T; score: number } => a.score !== null)
+		.sort((a, b) => a.score - b.score)
+		.map((a) => a.item);
+}
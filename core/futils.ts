@@ -89,6 +89,19 @@ export function userStateDir(): Result<string, Error> {
 	return Err(new UnsupportedOS(os));
 }
 
+/**
+ * Number of columns of the terminal. Falls back to `$COLUMNS` and then 80
+ * when stdout isn't a terminal.
+ */
+export function terminalWidth(): number {
+	try {
+		return Deno.consoleSize().columns;
+	} catch {
+		const columns = Number(process.env.COLUMNS);
+		return Number.isInteger(columns) && columns > 0 ? columns : 80;
+	}
+}
+
 export async function userEditor(): Promise<string | null> {
 	const visual = process.env.VISUAL;
 	const editor = process.env.EDITOR;
@@ -115,33 +128,110 @@ export async function userEditor(): Promise<string | null> {
 	return null;
 }
 
-export async function whereis(exe: string): Promise<string | null> {
-	const envPath = process.env.PATH ?? "";
-	const envExt = process.env.PATHEXT ?? "";
+export interface WhereisOptions {
+	/** Directories searched, in order. Defaults to `$PATH` */
+	path?: string;
+
+	/** Extensions tried on Windows. Defaults to `$PATHEXT` */
+	pathExt?: string;
+}
+
+function searchPath(options?: WhereisOptions): {
+	dirs: string[];
+	extensions: string[];
+} {
+	const envPath = options?.path ?? process.env.PATH ?? "";
+	const envExt = options?.pathExt ?? process.env.PATHEXT ?? "";
 	const dirs = envPath
 		.replace(/["]+/g, "")
 		.split(Path.delimiter)
 		.filter((a) => a.length > 0);
-	const extensions = envExt.split(";");
+	return { dirs, extensions: envExt.split(";") };
+}
+
+/**
+ * Files count as executable on Windows when their extension is in
+ * `$PATHEXT`. Elsewhere one of the execute bits needs to be set.
+ */
+function isExecutable(stats: { isFile(): boolean; mode: number }): boolean {
+	return stats.isFile() &&
+		(process.platform === "win32" || (stats.mode & 0o111) !== 0);
+}
+
+/**
+ * Finds the file of the executable [exe] on the search path. Resolves to
+ * null when there is none.
+ */
+export async function whereis(
+	exe: string,
+	options?: WhereisOptions,
+): Promise<string | null> {
+	const { dirs, extensions } = searchPath(options);
 	const p = [];
 	for (const dir of dirs) {
 		for (const ext of extensions) {
 			const file = Path.join(dir, `${exe}${ext}`);
 			p.push(
 				Fs.stat(file).then((stats) => {
-					try {
-						if (stats.isFile()) {
-							return file;
-						}
-					} catch (_) {
-						throw new Error("Not a file");
+					if (!isExecutable(stats)) {
+						throw new Error("Not an executable");
 					}
+					return file;
 				}),
 			);
 		}
 	}
-	const res = await Promise.any(p);
-	return res ?? null;
+	// Directories earlier on the path win, as they do in a shell
+	const found = await Promise.allSettled(p);
+	for (const res of found) {
+		if (res.status === "fulfilled") {
+			return res.value;
+		}
+	}
+	return null;
+}
+
+/**
+ * Executables on the search path whose name starts with [prefix], keyed by
+ * the rest of the name without the extension. Directories earlier on the
+ * path win.
+ */
+export async function listExecutables(
+	prefix: string,
+	options?: WhereisOptions,
+): Promise<Map<string, string>> {
+	const { dirs, extensions } = searchPath(options);
+	const found = new Map<string, string>();
+	for (const dir of dirs) {
+		const entries = await Fs.readdir(dir, { withFileTypes: true }).catch(
+			() => [],
+		);
+		for (const entry of entries) {
+			if (!entry.name.startsWith(prefix)) {
+				continue;
+			}
+			const ext = extensions.find((a) =>
+				a.length > 0 &&
+				entry.name.toLowerCase().endsWith(a.toLowerCase())
+			);
+			if (ext === undefined && extensions.some((a) => a.length > 0)) {
+				continue;
+			}
+			const name = entry.name.slice(
+				prefix.length,
+				ext ? -ext.length : undefined,
+			);
+			if (name.length === 0 || found.has(name)) {
+				continue;
+			}
+			const file = Path.join(dir, entry.name);
+			const stats = await Fs.stat(file).catch(() => null);
+			if (stats !== null && isExecutable(stats)) {
+				found.set(name, file);
+			}
+		}
+	}
+	return found;
 }
 
 export async function readFile(
@@ -0,0 +1,211 @@
+import type { Store } from "../store/store.ts";
+import { summarize } from "./error_format.ts";
+import type { Flag, LogFn, LogLevel } from "./types.ts";
+
+/**
+ * Log levels from the most to the least verbose.
+ */
+export const logLevels: readonly LogLevel[] = [
+	"trace",
+	"debug",
+	"info",
+	"warn",
+	"error",
+];
+
+/**
+ * The least severe level that gets logged. "off" disables logging.
+ */
+export type LogThreshold = LogLevel | "off";
+
+export type LogEntry = Parameters<LogFn>[0];
+
+/**
+ * Persistent flag to add to the root command to let callers pick the
+ * [LogThreshold]. Takes precedence over the environment variable named by
+ * [logLevelEnv].
+ */
+export const logLevelFlag: Flag = {
+	name: "log-level",
+	type: "string",
+	persistent: true,
+	description: "Log level: trace, debug, info, warn, error or off",
+};
+
+export function parseLogThreshold(value: unknown): LogThreshold | null {
+	return value === "off" ? "off" : logLevels.find((a) => a === value) ?? null;
+}
+
+/**
+ * Environment variable holding the log level of the program [name]. For
+ * example `MY_APP_LOG_LEVEL` for `my-app`.
+ */
+export function logLevelEnv(name: string): string {
+	return `${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_LOG_LEVEL`;
+}
+
+export function isLevelEnabled(
+	level: LogLevel,
+	threshold: LogThreshold,
+): boolean {
+	return threshold !== "off" &&
+		logLevels.indexOf(level) >= logLevels.indexOf(threshold);
+}
+
+/**
+ * Sends every entry to each of the [sinks].
+ */
+export function teeLog(...sinks: LogFn[]): LogFn {
+	return async (entry) => {
+		for (const sink of sinks) {
+			await sink(entry);
+		}
+	};
+}
+
+const COLORS: Record<LogLevel, string> = {
+	trace: "\x1b[90m",
+	debug: "\x1b[36m",
+	info: "\x1b[32m",
+	warn: "\x1b[33m",
+	error: "\x1b[31m",
+};
+
+export interface PrettyLogOptions {
+	/** Color the level. Defaults to false */
+	color?: boolean;
+
+	now?: () => Date;
+}
+
+/**
+ * Formats entries for people, one line each. For example
+ * `12:00:00.000 WARN  disk is almost full {"free":"1GB"}`. Large contexts are
+ * summarized.
+ */
+export function prettyLogSink(
+	printErr: (value: string) => Promise<void>,
+	options?: PrettyLogOptions,
+): LogFn {
+	const now = options?.now ?? (() => new Date());
+	return async ({ level, message, context }) => {
+		const time = now().toISOString().slice(11, 23);
+		const label = level.toUpperCase().padEnd(5);
+		const styled = options?.color
+			? `${COLORS[level]}${label}\x1b[0m`
+			: label;
+		const data = context === undefined
+			? ""
+			: ` ${JSON.stringify(summarize(context))}`;
+		await printErr(`${time} ${styled} ${message}${data}\n`);
+	};
+}
+
+/**
+ * Formats entries as NDJSON for tooling.
+ */
+export function ndjsonLogSink(
+	print: (value: string) => Promise<void>,
+	options?: { now?: () => Date },
+): LogFn {
+	const now = options?.now ?? (() => new Date());
+	return async ({ level, message, context }) => {
+		await print(
+			`${JSON.stringify({ now: now(), level, message, context })}\n`,
+		);
+	};
+}
+
+export interface FileLogOptions {
+	/** Defaults to "log.ndjson" */
+	path?: string;
+
+	/** Size in bytes the file is rotated at. Defaults to 1 MiB */
+	maxBytes?: number;
+
+	/**
+	 * Rotated files kept next to the log, named `log.ndjson.1` and up.
+	 * Defaults to 3
+	 */
+	maxFiles?: number;
+
+	now?: () => Date;
+}
+
+/**
+ * Appends entries as NDJSON to a file in [store]. The file is rotated once it
+ * grows past `maxBytes`. The store is only asked for when the first entry
+ * arrives. Entries that can't be written are dropped.
+ *
+ * [Store] can't append so the file is read once, kept in memory and written
+ * out whole, up to `maxBytes`, after each batch. Entries logged while a
+ * write is in flight are batched into the next one.
+ */
+export function fileLogSink(
+	store: () => Store | Promise<Store>,
+	options?: FileLogOptions,
+): LogFn {
+	const path = options?.path ?? "log.ndjson";
+	const maxBytes = options?.maxBytes ?? 1024 * 1024;
+	const maxFiles = options?.maxFiles ?? 3;
+	const now = options?.now ?? (() => new Date());
+	const encoder = new TextEncoder();
+
+	const rotate = async (store: Store, content: string) => {
+		for (let i = maxFiles - 1; i >= 1; i--) {
+			const older = await store.read(`${path}.${i}`);
+			if (older.success) {
+				await store.write(`${path}.${i + 1}`, older.value);
+			}
+		}
+		if (maxFiles > 0) {
+			await store.write(`${path}.1`, content);
+		}
+	};
+
+	let file: { content: string; size: number } | null = null;
+	const write = async (lines: string[]) => {
+		const target = await store();
+		if (file === null) {
+			const current = await target.read(path);
+			const content = current.success ? current.value : "";
+			file = { content, size: encoder.encode(content).length };
+		}
+		for (const line of lines) {
+			const size = encoder.encode(line).length;
+			if (file.size > 0 && file.size + size > maxBytes) {
+				await rotate(target, file.content);
+				file = { content: "", size: 0 };
+			}
+			file = {
+				content: `${file.content}${line}`,
+				size: file.size + size,
+			};
+		}
+		await target.write(path, file.content);
+	};
+
+	// Writes are chained so that entries don't overwrite each other
+	let queue: Promise<void> = Promise.resolve();
+	let batch: string[] | null = null;
+	return (entry) => {
+		const line = `${
+			JSON.stringify({
+				now: now(),
+				level: entry.level,
+				message: entry.message,
+				context: summarize(entry.context),
+			})
+		}\n`;
+		if (batch !== null) {
+			batch.push(line);
+			return queue;
+		}
+		const lines = batch = [line];
+		queue = queue.then(() => {
+			batch = null;
+			return write(lines);
+		}).catch(() => {});
+		return queue;
+	};
+}
@@ -0,0 +1,115 @@
+import { assertEquals } from "@std/assert";
+import { memoryBackend } from "../backend/memory.ts";
+import { memoryStore } from "../store/memory_store.ts";
+import { Result } from "../utils/mod.ts";
+import { Cmd } from "./cmd.ts";
+import {
+	fileLogSink,
+	logLevelEnv,
+	logLevelFlag,
+	prettyLogSink,
+} from "./log.ts";
+import { recordEnv } from "./testing.ts";
+import type { LogLevel } from "./types.ts";
+
+const now = () => new Date("2024-05-01T12:34:56.789Z");
+
+function makeCmd() {
+	return new Cmd({
+		name: "my-app",
+		flags: [logLevelFlag],
+		async do(ctx) {
+			for (const level of ["trace", "debug", "info", "warn", "error"]) {
+				await ctx.log({ level: level as LogLevel, message: level });
+			}
+			return null;
+		},
+	});
+}
+
+async function levels(args: string[], env: Record<string, string> = {}) {
+	const logged: string[] = [];
+	await makeCmd().runWithArgs(args, {
+		env: recordEnv(env),
+		log: async ({ message }) => {
+			logged.push(message);
+		},
+	});
+	return logged;
+}
+
+Deno.test("should filter entries by level", async () => {
+	assertEquals(logLevelEnv("my-app"), "MY_APP_LOG_LEVEL");
+	assertEquals(await levels([]), ["warn", "error"]);
+	assertEquals(await levels([], { MY_APP_LOG_LEVEL: "info" }), [
+		"info",
+		"warn",
+		"error",
+	]);
+	assertEquals(
+		await levels(["--log-level", "error"], { MY_APP_LOG_LEVEL: "info" }),
+		["error"],
+	);
+	assertEquals(await levels(["--log-level=off"]), []);
+});
+
+Deno.test("should format entries for people", async () => {
+	let out = "";
+	const log = prettyLogSink(async (value) => {
+		out = `${out}${value}`;
+	}, { now });
+	await log({
+		level: "warn",
+		message: "disk almost full",
+		context: { free: 1 },
+	});
+	await log({ level: "info", message: "done" });
+	assertEquals(
+		out,
+		'12:34:56.789 WARN  disk almost full {"free":1}\n12:34:56.789 INFO  done\n',
+	);
+});
+
+Deno.test("should append to a file and rotate it", async () => {
+	const store = memoryStore();
+	const log = fileLogSink(() => store, { maxBytes: 200, maxFiles: 2, now });
+	for (let i = 0; i < 8; i++) {
+		await log({ level: "info", message: `entry ${i}` });
+	}
+	const read = async (path: string) =>
+		Result.unwrap(await store.read(path)).trim().split("\n").map((a) =>
+			JSON.parse(a).message
+		);
+	assertEquals(await read("log.ndjson"), ["entry 6", "entry 7"]);
+	assertEquals(await read("log.ndjson.1"), ["entry 4", "entry 5"]);
+	assertEquals(await read("log.ndjson.2"), ["entry 2", "entry 3"]);
+	assertEquals((await store.read("log.ndjson.3")).success, false);
+});
+
+Deno.test("should log to the state store of the backend", async () => {
+	const backend = memoryBackend();
+	await makeCmd().runWithArgs([], {
+		backend,
+		logFile: true,
+		log: async () => {},
+	});
+	const content = Result.unwrap(await backend.state.read("log.ndjson"));
+	assertEquals(
+		content.trim().split("\n").map((a) => JSON.parse(a).level),
+		["warn", "error"],
+	);
+});
+
+Deno.test("should batch entries logged while writing", async () => {
+	const store = memoryStore();
+	await store.write("log.ndjson", '{"message":"old"}\n');
+	const log = fileLogSink(() => store, { now });
+	await Promise.all(
+		[0, 1, 2].map((i) => log({ level: "info", message: `entry ${i}` })),
+	);
+	const content = Result.unwrap(await store.read("log.ndjson"));
+	assertEquals(
+		content.trim().split("\n").map((a) => JSON.parse(a).message),
+		["old", "entry 0", "entry 1", "entry 2"],
+	);
+});
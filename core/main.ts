@@ -0,0 +1,142 @@
+import { Cmd, defaultPrintErrFn, type RunCmdOptions } from "./cmd.ts";
+import { type DenzaiCode, DenzaiErr } from "./error.ts";
+import {
+	type ErrorFormat,
+	errorFormatFromArgs,
+	formatErr,
+} from "./error_format.ts";
+import type { CmdApi } from "./types.ts";
+
+/**
+ * Exit codes following the sysexits(3) conventions.
+ */
+export const defaultExitCodes: Record<DenzaiCode, number> = {
+	ALIAS_CONFLICT: 70, // EX_SOFTWARE
+	AMBIGUOUS_COMMAND: 64, // EX_USAGE
+	CANCELLED: 130, // Interrupted, as with Ctrl-C
+	EXE_NOT_FOUND: 69, // EX_UNAVAILABLE
+	FILE_NOT_FOUND: 66, // EX_NOINPUT
+	INTERNAL: 70, // EX_SOFTWARE
+	INVALID_ARGS: 64, // EX_USAGE
+	INVALID_FLAG: 64, // EX_USAGE
+	INVALID_VERSION: 70, // EX_SOFTWARE
+	PARENT_EXPECTED: 70, // EX_SOFTWARE
+	PLUGIN_FAILED: 1, // Replaced by the exit code of the plugin
+	PROMPT_CANCELLED: 130, // Interrupted, as with Ctrl-C
+	PROMPT_UNAVAILABLE: 64, // EX_USAGE
+	TIMEOUT: 124, // As with timeout(1)
+	UNKNOWN_COMMAND: 64, // EX_USAGE
+	INVARIANT: 70, // EX_SOFTWARE
+	WRITE_FAILED: 73, // EX_CANTCREAT
+};
+
+export interface RunMainOptions extends RunCmdOptions {
+	/**
+	 * Overrides for [defaultExitCodes]. Codes missing from both exit with 1.
+	 */
+	exitCodes?: Partial<Record<string, number>>;
+
+	/**
+	 * Sets the exit code of the process. Defaults to setting `Deno.exitCode`
+	 * so that pending output is still flushed.
+	 */
+	setExitCode?: (code: number) => void;
+
+	/**
+	 * Format errors are rendered in. Defaults to the value given to the
+	 * `--error-format` flag, see [errorFormatFlag], and then "human".
+	 */
+	errorFormat?: ErrorFormat;
+}
+
+/**
+ * Exit code for [err] using [exitCodes] before [defaultExitCodes]. Plugins
+ * that failed pass on their own exit code.
+ */
+export function exitCode(
+	err: DenzaiErr | null,
+	exitCodes?: Partial<Record<string, number>>,
+): number {
+	if (err === null) {
+		return 0;
+	}
+	const context = err.context as { exitCode?: unknown } | undefined;
+	if (err.code === "PLUGIN_FAILED" && typeof context?.exitCode === "number") {
+		return context.exitCode;
+	}
+	return exitCodes?.[err.code] ??
+		defaultExitCodes[err.code as DenzaiCode] ??
+		1;
+}
+
+export type MainResult = {
+	/** Error the command ended with, including thrown exceptions */
+	error: DenzaiErr | null;
+
+	exitCode: number;
+};
+
+/**
+ * Does the work of [runMain] without touching the exit code of the process.
+ */
+export async function execMain(
+	cmd: Cmd | CmdApi,
+	options?: RunMainOptions,
+): Promise<MainResult> {
+	const printErr = options?.printErr ?? defaultPrintErrFn;
+	const format = options?.errorFormat ??
+		errorFormatFromArgs(options?.args ?? Deno.args) ?? "human";
+
+	// Errors found while parsing come through renderErr. Don't render twice
+	const rendered = new Set<DenzaiErr>();
+	let err: DenzaiErr | null;
+	try {
+		const root = cmd instanceof Cmd ? cmd : new Cmd(cmd);
+		err = await root.run({
+			...options,
+			printErr,
+			renderErr: async (ctx, err) => {
+				rendered.add(err);
+				if (options?.renderErr) {
+					await options.renderErr(ctx, err);
+				} else {
+					await ctx.printErr(formatErr(err, format));
+				}
+			},
+		});
+	} catch (e) {
+		err = DenzaiErr.from(e);
+	}
+
+	// Plugins report their own failures
+	if (
+		err !== null && !rendered.has(err) && err.code !== "PLUGIN_FAILED"
+	) {
+		await printErr(formatErr(err, format));
+	}
+	return { error: err, exitCode: exitCode(err, options?.exitCodes) };
+}
+
+/**
+ * Entrypoint for a binary. Runs [cmd], renders the error if there is one and
+ * sets the exit code of the process. Thrown exceptions are reported as
+ * `INTERNAL` errors. Errors are rendered with [formatErr] unless a
+ * `renderErr` is given. Resolves to the exit code.
+ *
+ * ```ts
+ * if (import.meta.main) {
+ * 	await runMain(appCmd);
+ * }
+ * ```
+ */
+export async function runMain(
+	cmd: Cmd | CmdApi,
+	options?: RunMainOptions,
+): Promise<number> {
+	const setExitCode = options?.setExitCode ?? ((code: number) => {
+		Deno.exitCode = code;
+	});
+	const result = await execMain(cmd, options);
+	setExitCode(result.exitCode);
+	return result.exitCode;
+}
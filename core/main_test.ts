@@ -0,0 +1,110 @@
+import { assertEquals } from "@std/assert";
+import { DenzaiErr } from "./error.ts";
+import { errorFormatFlag } from "./error_format.ts";
+import { runMain } from "./main.ts";
+import type { CmdApi } from "./types.ts";
+
+const appCmd: CmdApi = {
+	name: "app",
+	flags: [errorFormatFlag],
+	children: [
+		{
+			name: "open",
+			schema: { exact: 1 },
+			async do(ctx) {
+				return new DenzaiErr({
+					code: "FILE_NOT_FOUND",
+					message: `${ctx.cmdArgs[0]} does not exist`,
+				});
+			},
+		},
+		{
+			name: "crash",
+			async do() {
+				throw new Error("boom");
+			},
+		},
+		{
+			name: "ok",
+			async do() {
+				return null;
+			},
+		},
+	],
+};
+
+async function main(args: string[], exitCodes?: Record<string, number>) {
+	let stderr = "";
+	let exit: number | null = null;
+	const code = await runMain(appCmd, {
+		args,
+		detectComp: false,
+		exitCodes,
+		printErr: async (value) => {
+			stderr = `${stderr}${value}`;
+		},
+		setExitCode: (code) => {
+			exit = code;
+		},
+	});
+	assertEquals(exit, code);
+	return { code, stderr };
+}
+
+Deno.test("should exit with 0 on success", async () => {
+	assertEquals(await main(["ok"]), { code: 0, stderr: "" });
+});
+
+Deno.test("should map errors to sysexits codes", async () => {
+	assertEquals(await main(["open", "a.txt"]), {
+		code: 66,
+		stderr:
+			"FILE_NOT_FOUND: a.txt does not exist\nThe specified file could not be found.\n",
+	});
+	assertEquals(await main(["open"]), {
+		code: 64,
+		stderr: `
+INVALID_ARGS: expected exactly 1 argument(s), got 0
+The arguments do not match what the command expects.
+context:
+  constraint: exact
+  expected: 1
+  args: []
+usage: app open [flags] <args>
+`.trimStart(),
+	});
+	assertEquals(
+		(await main(["open", "a.txt"], { FILE_NOT_FOUND: 2 })).code,
+		2,
+	);
+});
+
+Deno.test("should report thrown exceptions as internal errors", async () => {
+	assertEquals(await main(["crash"]), {
+		code: 70,
+		stderr: `
+INTERNAL: boom
+An unexpected internal error has occurred.
+context:
+  cause:
+    name: Error
+    message: boom
+`.trimStart(),
+	});
+});
+
+Deno.test("should render errors as json when asked to", async () => {
+	const { code, stderr } = await main([
+		"--error-format=json",
+		"open",
+		"a.txt",
+	]);
+	assertEquals(code, 66);
+	assertEquals(JSON.parse(stderr), {
+		code: "FILE_NOT_FOUND",
+		message: "FILE_NOT_FOUND: a.txt does not exist",
+		desc: "The specified file could not be found.",
+		context: null,
+		hints: [],
+	});
+});
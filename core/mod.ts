@@ -1,6 +1,16 @@
 export * from "./cmd.ts";
 export * from "./error.ts";
+export * from "./error_format.ts";
+export * from "./flags.ts";
 export * from "./funcs.ts";
 export * from "./futils.ts";
+export * from "./log.ts";
+export * from "./main.ts";
+export * from "./output.ts";
+export * from "./plugin.ts";
+export * from "./prompt.ts";
+export * from "./signal.ts";
+export * from "./stdin.ts";
 export * from "./types.ts";
+export * from "./usage.ts";
 export * from "./completions.ts";
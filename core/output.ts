@@ -0,0 +1,296 @@
+import { Json, Yaml } from "../utils/mod.ts";
+import { DenzaiErr } from "./error.ts";
+import type { Flag } from "./types.ts";
+
+/**
+ * Formats records can be rendered in. "table" is for people, the rest for
+ * tooling.
+ */
+export type OutputFormat = "table" | "json" | "yaml" | "ndjson";
+
+export const outputFormats: readonly OutputFormat[] = [
+	"table",
+	"json",
+	"yaml",
+	"ndjson",
+];
+
+/**
+ * Persistent flag to add to the root command to let callers pick the
+ * [OutputFormat] used by `ctx.output`.
+ */
+export const outputFlag: Flag = {
+	name: "output",
+	type: "string",
+	persistent: true,
+	description: "Output format: table, json, yaml or ndjson",
+};
+
+/**
+ * A column of a table.
+ */
+export interface Column<T> {
+	/** Property of the record shown in the column */
+	key: keyof T & string;
+
+	/** Defaults to the key in upper case */
+	header?: string;
+
+	/** Longer values are truncated */
+	maxWidth?: number;
+
+	/** Defaults to "left" */
+	align?: "left" | "right";
+
+	/** Turns the value into text. Defaults to `String`, with "" for nullish */
+	format?: (value: T[keyof T], record: T) => string;
+}
+
+export interface OutputOptions<T> {
+	/**
+	 * Columns of the table, in order. Defaults to the keys of the first
+	 * record. Other formats always include the whole record.
+	 */
+	columns?: readonly ((keyof T & string) | Column<T>)[];
+
+	/** Overrides the format picked with [outputFlag] */
+	format?: OutputFormat;
+
+	/** Width the table is shrunk to fit. Defaults to no limit */
+	width?: number;
+}
+
+export function parseOutputFormat(value: unknown): OutputFormat | null {
+	return outputFormats.find((a) => a === value) ?? null;
+}
+
+/**
+ * Checks the value given to [outputFlag].
+ */
+export function outputFormat(
+	value: unknown,
+): OutputFormat | DenzaiErr {
+	if (value === undefined) {
+		return "table";
+	}
+	return parseOutputFormat(value) ?? new DenzaiErr({
+		code: "INVALID_FLAG",
+		message: `--${outputFlag.name} must be one of ${
+			outputFormats.join(", ")
+		}, got "${value}"`,
+		context: { flag: outputFlag.name, value },
+	});
+}
+
+// Zero width: combining marks, variation selectors and format characters
+// such as zero width spaces and joiners
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}]$/u;
+
+// East Asian wide and fullwidth ranges plus emoji
+const WIDE: [number, number][] = [
+	[0x1100, 0x115f],
+	[0x231a, 0x231b],
+	[0x2329, 0x232a],
+	[0x23e9, 0x23ec],
+	[0x23f0, 0x23f0],
+	[0x23f3, 0x23f3],
+	[0x25fd, 0x25fe],
+	[0x2614, 0x2615],
+	[0x2648, 0x2653],
+	[0x267f, 0x267f],
+	[0x2693, 0x2693],
+	[0x26a1, 0x26a1],
+	[0x26aa, 0x26ab],
+	[0x26bd, 0x26be],
+	[0x26c4, 0x26c5],
+	[0x26ce, 0x26ce],
+	[0x26d4, 0x26d4],
+	[0x26ea, 0x26ea],
+	[0x26f2, 0x26f3],
+	[0x26f5, 0x26f5],
+	[0x26fa, 0x26fa],
+	[0x26fd, 0x26fd],
+	[0x2705, 0x2705],
+	[0x270a, 0x270b],
+	[0x2728, 0x2728],
+	[0x274c, 0x274c],
+	[0x274e, 0x274e],
+	[0x2753, 0x2755],
+	[0x2757, 0x2757],
+	[0x2795, 0x2797],
+	[0x27b0, 0x27b0],
+	[0x27bf, 0x27bf],
+	[0x2b1b, 0x2b1c],
+	[0x2b50, 0x2b50],
+	[0x2b55, 0x2b55],
+	[0x2e80, 0x303e],
+	[0x3041, 0x33ff],
+	[0x3400, 0x4dbf],
+	[0x4e00, 0x9fff],
+	[0xa000, 0xa4cf],
+	[0xa960, 0xa97f],
+	[0xac00, 0xd7a3],
+	[0xf900, 0xfaff],
+	[0xfe10, 0xfe19],
+	[0xfe30, 0xfe6f],
+	[0xff00, 0xff60],
+	[0xffe0, 0xffe6],
+	[0x1f004, 0x1f004],
+	[0x1f0cf, 0x1f0cf],
+	[0x1f18e, 0x1f18e],
+	[0x1f191, 0x1f19a],
+	[0x1f200, 0x1f251],
+	[0x1f300, 0x1f64f],
+	[0x1f680, 0x1f6ff],
+	[0x1f900, 0x1f9ff],
+	[0x1fa70, 0x1faff],
+	[0x20000, 0x3fffd],
+];
+
+function charWidth(char: string): number {
+	const code = char.codePointAt(0)!;
+	if (code < 0x20 || (code >= 0x7f && code < 0xa0) || ZERO_WIDTH.test(char)) {
+		return 0;
+	}
+	let lo = 0;
+	let hi = WIDE.length - 1;
+	while (lo <= hi) {
+		const mid = (lo + hi) >> 1;
+		const [start, end] = WIDE[mid]!;
+		if (code < start) {
+			hi = mid - 1;
+		} else if (code > end) {
+			lo = mid + 1;
+		} else {
+			return 2;
+		}
+	}
+	return 1;
+}
+
+// deno-lint-ignore no-control-regex
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Number of terminal columns [text] takes up. Wide characters such as CJK and
+ * emoji take two, combining marks none. Color codes are ignored.
+ */
+export function displayWidth(text: string): number {
+	let width = 0;
+	for (const char of text.replace(ANSI, "")) {
+		width += charWidth(char);
+	}
+	return width;
+}
+
+/**
+ * Shortens [text] to at most [width] columns, ending in "…" when cut.
+ */
+export function truncate(text: string, width: number): string {
+	if (displayWidth(text) <= width) {
+		return text;
+	}
+	if (width <= 0) {
+		return "";
+	}
+	let out = "";
+	let used = 0;
+	for (const char of text.replace(ANSI, "")) {
+		const w = charWidth(char);
+		if (used + w > width - 1) {
+			break;
+		}
+		out += char;
+		used += w;
+	}
+	return `${out}…`;
+}
+
+function pad(text: string, width: number, align: "left" | "right"): string {
+	const fill = " ".repeat(Math.max(width - displayWidth(text), 0));
+	return align === "right" ? `${fill}${text}` : `${text}${fill}`;
+}
+
+/**
+ * Renders [records] as a table with aligned columns.
+ */
+export function renderTable<T extends Record<string, unknown>>(
+	records: readonly T[],
+	options?: Pick<OutputOptions<T>, "columns" | "width">,
+): string {
+	const columns: Column<T>[] = (
+		options?.columns ??
+			Object.keys(records[0] ?? {}) as (keyof T & string)[]
+	).map((a) => typeof a === "string" ? { key: a } : a);
+	if (columns.length === 0) {
+		return "";
+	}
+
+	const headers = columns.map((a) => a.header ?? a.key.toUpperCase());
+	const rows = records.map((record) =>
+		columns.map((column) => {
+			const value = record[column.key];
+			const text = column.format
+				? column.format(value, record)
+				: value === null || value === undefined
+				? ""
+				: String(value);
+			// Cells are kept on a single line
+			return text.replace(/\s*\n\s*/g, " ");
+		})
+	);
+
+	const widths = columns.map((column, i) =>
+		Math.min(
+			column.maxWidth ?? Infinity,
+			Math.max(
+				displayWidth(headers[i]!),
+				...rows.map((row) => displayWidth(row[i]!)),
+			),
+		)
+	);
+	const gap = 2;
+	const limit = options?.width ?? Infinity;
+	const total = () =>
+		widths.reduce((a, b) => a + b, 0) + gap * (widths.length - 1);
+	// Shrink the widest column until the table fits
+	while (total() > limit) {
+		const widest = widths.indexOf(Math.max(...widths));
+		if (widths[widest]! <= 3) {
+			break;
+		}
+		widths[widest]!--;
+	}
+
+	const line = (cells: string[]) =>
+		cells.map((cell, i) => {
+			const text = truncate(cell, widths[i]!);
+			// The last column isn't padded to avoid trailing spaces
+			return i === cells.length - 1 && columns[i]!.align !== "right"
+				? text
+				: pad(text, widths[i]!, columns[i]!.align ?? "left");
+		}).join(" ".repeat(gap));
+	return [line(headers), ...rows.map(line)].map((a) => `${a}\n`).join("");
+}
+
+/**
+ * Renders [records] in [format]. Tables show the selected columns, the other
+ * formats the whole records.
+ */
+export function renderOutput<T extends Record<string, unknown>>(
+	records: readonly T[],
+	format: OutputFormat,
+	options?: OutputOptions<T>,
+): string {
+	const data = records.map((a) => Json.jsonify(a));
+	switch (format) {
+		case "json":
+			return `${Json.stringify(data, { space: "  " })}\n`;
+		case "ndjson":
+			return data.map((a) => `${Json.stringify(a)}\n`).join("");
+		case "yaml":
+			return data.length > 0 ? Yaml.stringify(data) : "[]\n";
+		case "table":
+			return renderTable(records, options);
+	}
+}
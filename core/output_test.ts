@@ -0,0 +1,94 @@
+import { assertEquals } from "@std/assert";
+import { displayWidth, outputFlag, renderTable, truncate } from "./output.ts";
+import { testCmd } from "./testing.ts";
+import type { CmdApi } from "./types.ts";
+
+Deno.test("should measure the display width of text", () => {
+	assertEquals(displayWidth("abc"), 3);
+	assertEquals(displayWidth("日本語"), 6);
+	assertEquals(displayWidth("é"), 1);
+	assertEquals(displayWidth("🚀 go"), 5);
+	assertEquals(displayWidth("\x1b[31mred\x1b[0m"), 3);
+});
+
+Deno.test("should truncate by display width", () => {
+	assertEquals(truncate("hello world", 6), "hello…");
+	assertEquals(truncate("日本語のテキスト", 7), "日本語…");
+	assertEquals(truncate("short", 10), "short");
+});
+
+Deno.test("should align table columns", () => {
+	const records = [
+		{ name: "origin", url: "https://example.com/a.git", size: 12 },
+		{ name: "日本", url: "https://example.com/b.git", size: 1024 },
+	];
+	assertEquals(
+		renderTable(records, {
+			columns: [
+				"name",
+				{ key: "size", align: "right" },
+				{ key: "url", header: "Remote URL", maxWidth: 12 },
+			],
+		}),
+		[
+			"NAME    SIZE  Remote URL",
+			"origin    12  https://exa…",
+			"日本    1024  https://exa…",
+			"",
+		].join("\n"),
+	);
+	assertEquals(
+		renderTable(records, { columns: ["name", "url"], width: 20 }),
+		[
+			"NAME    URL",
+			"origin  https://exa…",
+			"日本    https://exa…",
+			"",
+		].join("\n"),
+	);
+});
+
+const listCmd: CmdApi = {
+	name: "app",
+	flags: [outputFlag],
+	children: [{
+		name: "ls",
+		async do(ctx) {
+			return await ctx.output(
+				[{ name: "a", size: 1 }, { name: "b", size: 2 }],
+				{ columns: ["name"] },
+			);
+		},
+	}],
+};
+
+Deno.test("should render records in the format asked for", async () => {
+	assertEquals((await testCmd(listCmd, ["ls"])).stdout, "NAME\na\nb\n");
+	assertEquals(
+		(await testCmd(listCmd, ["ls", "--output", "ndjson"])).stdout,
+		'{"name":"a","size":1}\n{"name":"b","size":2}\n',
+	);
+	assertEquals(
+		JSON.parse((await testCmd(listCmd, ["--output=json", "ls"])).stdout),
+		[{ name: "a", size: 1 }, { name: "b", size: 2 }],
+	);
+	assertEquals(
+		(await testCmd(listCmd, ["ls", "--output", "yaml"])).stdout,
+		"- name: a\n  size: 1\n- name: b\n  size: 2\n",
+	);
+
+	const bad = await testCmd(listCmd, ["ls", "--output", "xml"]);
+	assertEquals(bad.error?.code, "INVALID_FLAG");
+	assertEquals(bad.exitCode, 64);
+});
+
+Deno.test("should not fit tables to the terminal when print is replaced", async () => {
+	const url = `https://example.com/${"a".repeat(300)}`;
+	const res = await testCmd({
+		name: "app",
+		async do(ctx) {
+			return await ctx.output([{ url }]);
+		},
+	}, []);
+	assertEquals(res.stdout, `URL\n${url}\n`);
+});
@@ -0,0 +1,155 @@
+import { DenzaiErr } from "./error.ts";
+import { Err, Ok, type Result } from "./funcs.ts";
+import type { Ctx, Param, ParamType } from "./types.ts";
+import { usageLine } from "./usage.ts";
+
+export function paramType(param: Param): ParamType {
+	return param.type ?? "string";
+}
+
+/**
+ * Describes how a param is used. For example `<file>`, `[<file>]` or
+ * `<file>...`.
+ */
+export function paramUsage(param: Param): string {
+	const name = `<${param.name}>${param.variadic ? "..." : ""}`;
+	return param.optional ? `[${name}]` : name;
+}
+
+/**
+ * Finds the param that the argument at [index] is assigned to.
+ */
+export function paramAt(
+	params: readonly Param[],
+	index: number,
+): Param | null {
+	const last = params[params.length - 1];
+	if (index >= params.length && last?.variadic) {
+		return last;
+	}
+	return params[index] ?? null;
+}
+
+function invalidParam(
+	ctx: Ctx,
+	param: string | null,
+	message: string,
+): DenzaiErr {
+	return new DenzaiErr({
+		code: "INVALID_ARGS",
+		message,
+		context: {
+			constraint: "params",
+			param,
+			args: ctx.cmdArgs,
+			usage: usageLine(ctx.path),
+		},
+	});
+}
+
+function convert(
+	ctx: Ctx,
+	param: Param,
+	value: string,
+): Result<string | number, DenzaiErr> {
+	switch (paramType(param)) {
+		case "int": {
+			if (!/^[-+]?\d+$/.test(value)) {
+				return Err(
+					invalidParam(
+						ctx,
+						param.name,
+						`<${param.name}> expects an integer, got "${value}"`,
+					),
+				);
+			}
+			return Ok(Number.parseInt(value, 10));
+		}
+		case "float": {
+			const n = Number(value);
+			if (value.trim().length === 0 || Number.isNaN(n)) {
+				return Err(
+					invalidParam(
+						ctx,
+						param.name,
+						`<${param.name}> expects a number, got "${value}"`,
+					),
+				);
+			}
+			return Ok(n);
+		}
+		case "enum": {
+			const choices = param.choices ?? [];
+			if (!choices.includes(value)) {
+				return Err(
+					invalidParam(
+						ctx,
+						param.name,
+						`<${param.name}> must be one of ${
+							choices.join(", ")
+						}, got "${value}"`,
+					),
+				);
+			}
+			return Ok(value);
+		}
+		default:
+			return Ok(value);
+	}
+}
+
+/**
+ * Parses `ctx.cmdArgs` into named values using the params of the command
+ * schema. Commands without params get an empty object.
+ */
+export function parseParams(
+	ctx: Ctx,
+): Result<Record<string, unknown>, DenzaiErr> {
+	const params = ctx.cmd.schema.params ?? [];
+	const values: Record<string, unknown> = {};
+	if (params.length === 0) {
+		return Ok(values);
+	}
+
+	const args = ctx.cmdArgs;
+	const required = params.filter((a) => !a.optional).length;
+	const variadic = params[params.length - 1]?.variadic ?? false;
+	if (args.length < required) {
+		const missing = params[args.length];
+		return Err(
+			invalidParam(
+				ctx,
+				missing?.name ?? null,
+				`missing argument <${missing?.name}>`,
+			),
+		);
+	}
+	if (!variadic && args.length > params.length) {
+		return Err(
+			invalidParam(
+				ctx,
+				null,
+				`expected at most ${params.length} argument(s), got ${args.length}`,
+			),
+		);
+	}
+
+	for (const param of params) {
+		if (param.variadic) {
+			values[param.name] = [];
+		}
+	}
+	for (let i = 0; i < args.length; i++) {
+		const param = paramAt(params, i)!;
+		const res = convert(ctx, param, args[i]!);
+		if (!res.success) {
+			return res;
+		}
+		if (param.variadic) {
+			(values[param.name] as (string | number)[]).push(res.value);
+		} else {
+			values[param.name] = res.value;
+		}
+	}
+	return Ok(values);
+}
@@ -0,0 +1,106 @@
+import type { Cmd } from "./cmd.ts";
+import { DenzaiErr } from "./error.ts";
+import { listExecutables, whereis, type WhereisOptions } from "./futils.ts";
+import type { CmdApi, CmdEnv, Ctx } from "./types.ts";
+
+/**
+ * An executable extending a program from outside, found on the search path
+ * the way git finds `git-<name>`.
+ */
+export type Plugin = {
+	/** Subcommand the plugin is invoked as */
+	name: string;
+
+	/** Path of the executable */
+	file: string;
+};
+
+const PLUGIN_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+function searchPath(env: CmdEnv): WhereisOptions {
+	return { path: env.get("PATH") ?? "", pathExt: env.get("PATHEXT") ?? "" };
+}
+
+/**
+ * Name of the executable providing the subcommand [name] of [root].
+ */
+export function pluginExe(root: Cmd, name: string): string {
+	return `${root.name}-${name}`;
+}
+
+/**
+ * Looks up the plugin for the subcommand given to the root command. Only
+ * the root looks for plugins, see [Cmd.findsPlugins].
+ */
+export async function findPlugin(ctx: Ctx): Promise<Plugin | null> {
+	const [name] = ctx.cmdArgs;
+	if (
+		ctx.cmd !== ctx.root || !ctx.root.findsPlugins || name === undefined ||
+		!PLUGIN_NAME.test(name)
+	) {
+		return null;
+	}
+	const file = await whereis(pluginExe(ctx.root, name), searchPath(ctx.env));
+	return file === null ? null : { name, file };
+}
+
+/**
+ * Plugins of [root] found on the search path. Plugins sharing a name with a
+ * subcommand are left out as they can't be invoked.
+ */
+export async function listPlugins(root: Cmd, env: CmdEnv): Promise<Plugin[]> {
+	if (!root.findsPlugins) {
+		return [];
+	}
+	const taken = new Set(root.children.flatMap((a) => [a.name, ...a.alias]));
+	const found = await listExecutables(`${root.name}-`, searchPath(env));
+	return [...found]
+		.filter(([name]) => PLUGIN_NAME.test(name) && !taken.has(name))
+		.map(([name, file]) => ({ name, file }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Command running [plugin] with the arguments that follow its name. Flags
+ * are not parsed and stdio is inherited. A plugin exiting with a failure
+ * results in a `PLUGIN_FAILED` error carrying its exit code.
+ */
+export function pluginCmd(plugin: Plugin): CmdApi {
+	return {
+		name: plugin.name,
+		short: `Plugin at ${plugin.file}`,
+		async do(ctx) {
+			let status: Deno.CommandStatus;
+			try {
+				const child = new Deno.Command(plugin.file, {
+					args: ctx.cmdArgs,
+					stdin: "inherit",
+					stdout: "inherit",
+					stderr: "inherit",
+					signal: ctx.signal,
+				}).spawn();
+				status = await child.status;
+			} catch (error) {
+				return new DenzaiErr({
+					code: "EXE_NOT_FOUND",
+					message: `Unable to run plugin ${plugin.file}`,
+					context: { ...plugin, error },
+				});
+			}
+			if (status.success) {
+				return null;
+			}
+			return new DenzaiErr({
+				code: "PLUGIN_FAILED",
+				message: `${pluginExe(ctx.root, plugin.name)} exited with ${
+					status.signal ?? status.code
+				}`,
+				context: {
+					...plugin,
+					exitCode: status.code,
+					signal: status.signal,
+				},
+			});
+		},
+	};
+}
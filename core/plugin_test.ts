@@ -0,0 +1,162 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import * as Path from "node:path";
+import { Cmd } from "./cmd.ts";
+import { whereis } from "./futils.ts";
+import { listPlugins } from "./plugin.ts";
+import { recordEnv, testCmd, testComp } from "./testing.ts";
+import type { CmdApi } from "./types.ts";
+
+const appCmd: CmdApi = {
+	name: "app",
+	children: [
+		{
+			name: "status",
+			async do() {
+				return null;
+			},
+		},
+	],
+};
+
+async function withPlugins(
+	fn: (dir: string, env: Record<string, string>) => Promise<void>,
+) {
+	const dir = await Deno.makeTempDir();
+	const script = async (name: string, body: string) => {
+		const file = Path.join(dir, name);
+		await Deno.writeTextFile(file, `#!/bin/sh\n${body}\n`);
+		await Deno.chmod(file, 0o755);
+	};
+	try {
+		await script(
+			"app-hello",
+			`printf '%s\\n' "$@" > "${dir}/args"\nexit 3`,
+		);
+		await script("app-ok", "exit 0");
+		await script("app-status", "exit 0");
+		await script("other-tool", "exit 0");
+		await Deno.writeTextFile(Path.join(dir, "app-notes.txt"), "notes");
+		await fn(dir, { PATH: dir });
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+}
+
+Deno.test({
+	name: "plugins",
+	ignore: Deno.build.os === "windows",
+	async fn(t) {
+		await withPlugins(async (dir, env) => {
+			await t.step("whereis resolves to null when missing", async () => {
+				assertEquals(
+					await whereis("app-hello", { path: dir }),
+					Path.join(dir, "app-hello"),
+				);
+				assertEquals(await whereis("app-missing", { path: dir }), null);
+				assertEquals(
+					await whereis("app-notes.txt", { path: dir }),
+					null,
+				);
+			});
+
+			await t.step(
+				"are listed unless a subcommand shadows them",
+				async () => {
+					const plugins = await listPlugins(
+						new Cmd(appCmd),
+						recordEnv(env),
+					);
+					assertEquals(plugins.map((a) => a.name), ["hello", "ok"]);
+					assertEquals(
+						await listPlugins(
+							new Cmd({ ...appCmd, plugins: false }),
+							recordEnv(env),
+						),
+						[],
+					);
+				},
+			);
+
+			await t.step(
+				"get the raw args and pass on the exit code",
+				async () => {
+					const res = await testCmd(appCmd, [
+						"hello",
+						"--loud",
+						"world",
+					], {
+						env,
+					});
+					assertEquals(res.error?.code, "PLUGIN_FAILED");
+					assertEquals(res.exitCode, 3);
+					assertEquals(res.stderr, "");
+					assertEquals(
+						await Deno.readTextFile(Path.join(dir, "args")),
+						"--loud\nworld\n",
+					);
+					assertEquals(
+						(await testCmd(appCmd, ["ok"], { env })).exitCode,
+						0,
+					);
+				},
+			);
+
+			await t.step(
+				"are ignored by roots without subcommands",
+				async () => {
+					const res = await testCmd({ name: "app" }, ["hello"], {
+						env,
+					});
+					assertEquals(res.exitCode, 0);
+					assertEquals(
+						await listPlugins(
+							new Cmd({ name: "app" }),
+							recordEnv(env),
+						),
+						[],
+					);
+				},
+			);
+
+			await t.step(
+				"never take over the arguments of a root",
+				async () => {
+					const args: string[][] = [];
+					const root: CmdApi = {
+						...appCmd,
+						schema: { params: [{ name: "file" }] },
+						async do(ctx) {
+							args.push(ctx.cmdArgs);
+							return null;
+						},
+					};
+					assertEquals(
+						(await testCmd(root, ["hello"], { env })).exitCode,
+						0,
+					);
+					assertEquals(args, [["hello"]]);
+					assertEquals(
+						await listPlugins(new Cmd(root), recordEnv(env)),
+						[],
+					);
+				},
+			);
+
+			await t.step("can be turned off", async () => {
+				const res = await testCmd(
+					{ ...appCmd, plugins: false },
+					["ok"],
+					{ env },
+				);
+				assertEquals(res.error?.code, "UNKNOWN_COMMAND");
+			});
+
+			await t.step("show in help and completion", async () => {
+				const help = await testCmd(appCmd, ["--help"], { env });
+				assertStringIncludes(help.stdout, "plugins:\n\thello\n\tok\n");
+				const comp = await testComp(appCmd, "app ", { env });
+				assertEquals(comp.stdout, "status hello ok");
+			});
+		});
+	},
+});
@@ -0,0 +1,430 @@
+import { DenzaiErr } from "./error.ts";
+import { Err, fuzzyFilter, Ok, type Result } from "./funcs.ts";
+import type { Ctx } from "./types.ts";
+
+/**
+ * An option offered by [select] and [multiselect]. Plain strings are their
+ * own label and value.
+ */
+export type Choice<T> = { label: string; value: T };
+
+export interface ConfirmOptions {
+	/** Answer used for an empty reply and when the input isn't a terminal */
+	default?: boolean;
+}
+
+export interface InputOptions {
+	/** Answer used for an empty reply and when the input isn't a terminal */
+	default?: string;
+
+	/** Returns a message explaining what is wrong with [value], or null */
+	validate?: (value: string) => string | null;
+}
+
+export interface PasswordOptions {
+	/** Returns a message explaining what is wrong with [value], or null */
+	validate?: (value: string) => string | null;
+}
+
+export interface SelectOptions<T> {
+	/** Answer used when the input isn't a terminal. Selected at the start */
+	default?: T;
+
+	/** Number of choices shown at once. Defaults to 7 */
+	pageSize?: number;
+}
+
+export interface MultiSelectOptions<T> {
+	/** Answer used when the input isn't a terminal. Selected at the start */
+	default?: T[];
+
+	/** Number of choices shown at once. Defaults to 7 */
+	pageSize?: number;
+}
+
+const KEY = {
+	up: "\x1b[A",
+	down: "\x1b[B",
+	enter: "\r",
+	newline: "\n",
+	space: " ",
+	backspace: "\x7f",
+	ctrlC: "\x03",
+	ctrlD: "\x04",
+	escape: "\x1b",
+};
+
+function unavailable(message: string): DenzaiErr {
+	return new DenzaiErr({
+		code: "PROMPT_UNAVAILABLE",
+		message: `no answer for "${message}" as the input is not a terminal`,
+		context: { prompt: message },
+	});
+}
+
+function cancelled(message: string): DenzaiErr {
+	return new DenzaiErr({
+		code: "PROMPT_CANCELLED",
+		message: `"${message}" was not answered`,
+		context: { prompt: message },
+	});
+}
+
+function toChoice<T>(choice: string | Choice<T>): Choice<T> {
+	return typeof choice === "string"
+		? { label: choice, value: choice as T }
+		: choice;
+}
+
+// Key presses are only available with raw mode. Otherwise whole lines are read
+function canReadKeys(ctx: Ctx): boolean {
+	return ctx.stdin.isTTY() && ctx.stdin.setRaw !== undefined;
+}
+
+async function ask(ctx: Ctx, question: string): Promise<string | null> {
+	await ctx.print(question);
+	return await ctx.stdin.readLine();
+}
+
+/**
+ * Asks a yes or no question.
+ */
+export async function confirm(
+	ctx: Ctx,
+	message: string,
+	options?: ConfirmOptions,
+): Promise<Result<boolean, DenzaiErr>> {
+	const def = options?.default;
+	if (!ctx.stdin.isTTY()) {
+		return def !== undefined ? Ok(def) : Err(unavailable(message));
+	}
+	const hint = def === undefined ? "y/n" : def ? "Y/n" : "y/N";
+	while (true) {
+		const answer = await ask(ctx, `? ${message} (${hint}) `);
+		if (answer === null) {
+			return Err(cancelled(message));
+		}
+		const value = answer.trim().toLowerCase();
+		if (value === "" && def !== undefined) {
+			return Ok(def);
+		}
+		if (value === "y" || value === "yes") {
+			return Ok(true);
+		}
+		if (value === "n" || value === "no") {
+			return Ok(false);
+		}
+		await ctx.print("Please answer y or n\n");
+	}
+}
+
+/**
+ * Asks for a line of text. Asks again until the answer passes validation.
+ */
+export async function input(
+	ctx: Ctx,
+	message: string,
+	options?: InputOptions,
+): Promise<Result<string, DenzaiErr>> {
+	const def = options?.default;
+	if (!ctx.stdin.isTTY()) {
+		return def !== undefined ? Ok(def) : Err(unavailable(message));
+	}
+	const hint = def !== undefined ? ` (${def})` : "";
+	while (true) {
+		const answer = await ask(ctx, `? ${message}${hint} `);
+		if (answer === null) {
+			return Err(cancelled(message));
+		}
+		const value = answer.length === 0 && def !== undefined ? def : answer;
+		const problem = options?.validate?.(value) ?? null;
+		if (problem === null) {
+			return Ok(value);
+		}
+		await ctx.print(`${problem}\n`);
+	}
+}
+
+/**
+ * Reads a line in raw mode without echoing it.
+ */
+async function readHidden(ctx: Ctx): Promise<string | null> {
+	let value = "";
+	ctx.stdin.setRaw?.(true);
+	try {
+		while (true) {
+			const key = await ctx.stdin.read();
+			if (key === null || key === KEY.ctrlC || key === KEY.ctrlD) {
+				return null;
+			}
+			if (key === KEY.enter || key === KEY.newline) {
+				return value;
+			}
+			if (key === KEY.backspace) {
+				value = value.slice(0, -1);
+			} else if (!key.startsWith(KEY.escape)) {
+				value += key;
+			}
+		}
+	} finally {
+		ctx.stdin.setRaw?.(false);
+		await ctx.print("\n");
+	}
+}
+
+/**
+ * Asks for a secret. The answer isn't echoed when the terminal supports raw
+ * mode. There is no fallback when the input isn't a terminal.
+ */
+export async function password(
+	ctx: Ctx,
+	message: string,
+	options?: PasswordOptions,
+): Promise<Result<string, DenzaiErr>> {
+	if (!ctx.stdin.isTTY()) {
+		return Err(unavailable(message));
+	}
+	while (true) {
+		let answer: string | null;
+		if (canReadKeys(ctx)) {
+			await ctx.print(`? ${message} `);
+			answer = await readHidden(ctx);
+		} else {
+			answer = await ask(ctx, `? ${message} `);
+		}
+		if (answer === null) {
+			return Err(cancelled(message));
+		}
+		const problem = options?.validate?.(answer) ?? null;
+		if (problem === null) {
+			return Ok(answer);
+		}
+		await ctx.print(`${problem}\n`);
+	}
+}
+
+/**
+ * Finds the choice meant by a typed answer: its number, its label or the best
+ * fuzzy match of its label.
+ */
+function resolveChoice<T>(
+	answer: string,
+	choices: Choice<T>[],
+): Choice<T> | null {
+	const value = answer.trim();
+	if (/^\d+$/.test(value)) {
+		return choices[Number(value) - 1] ?? null;
+	}
+	return choices.find((a) => a.label === value) ??
+		fuzzyFilter(value, choices, (a) => a.label)[0] ??
+		null;
+}
+
+/**
+ * Lets the user pick choices with the arrow keys while typing filters them.
+ * Enter picks the highlighted choice or, with [multi], the ones toggled with
+ * space.
+ */
+async function pickKeys<T>(
+	ctx: Ctx,
+	message: string,
+	choices: Choice<T>[],
+	options: { multi: boolean; selected: Choice<T>[]; pageSize: number },
+): Promise<Choice<T>[] | null> {
+	const selected = new Set(options.selected);
+	let query = "";
+	let cursor = 0;
+	let rendered = 0;
+
+	const render = async (lines: string[]) => {
+		const clear = rendered > 0 ? `\x1b[${rendered}A\r\x1b[0J` : "";
+		rendered = lines.length;
+		await ctx.print(`${clear}${lines.map((a) => `${a}\n`).join("")}`);
+	};
+	const visible = () =>
+		query.length > 0
+			? fuzzyFilter(query, choices, (a) => a.label)
+			: choices;
+
+	ctx.stdin.setRaw?.(true);
+	await ctx.print("\x1b[?25l");
+	try {
+		while (true) {
+			const shown = visible();
+			cursor = Math.min(cursor, Math.max(shown.length - 1, 0));
+			const start = Math.max(
+				0,
+				Math.min(
+					cursor - Math.floor(options.pageSize / 2),
+					shown.length - options.pageSize,
+				),
+			);
+			await render([
+				`? ${message} › ${query}`,
+				...shown.slice(start, start + options.pageSize).map(
+					(choice, i) => {
+						const pointer = start + i === cursor ? "❯" : " ";
+						const mark = options.multi
+							? selected.has(choice) ? "◉ " : "◯ "
+							: "";
+						return `${pointer} ${mark}${choice.label}`;
+					},
+				),
+			]);
+
+			const key = await ctx.stdin.read();
+			if (
+				key === null || key === KEY.ctrlC || key === KEY.ctrlD ||
+				key === KEY.escape
+			) {
+				return null;
+			}
+			const current = shown[cursor];
+			if (key === KEY.enter || key === KEY.newline) {
+				if (options.multi) {
+					await render([
+						`? ${message} › ${
+							choices.filter((a) => selected.has(a))
+								.map((a) => a.label).join(", ")
+						}`,
+					]);
+					return choices.filter((a) => selected.has(a));
+				}
+				if (current !== undefined) {
+					await render([`? ${message} › ${current.label}`]);
+					return [current];
+				}
+			} else if (key === KEY.up) {
+				cursor = (cursor - 1 + shown.length) %
+					Math.max(shown.length, 1);
+			} else if (key === KEY.down) {
+				cursor = (cursor + 1) % Math.max(shown.length, 1);
+			} else if (key === KEY.space && options.multi) {
+				if (current !== undefined && selected.has(current)) {
+					selected.delete(current);
+				} else if (current !== undefined) {
+					selected.add(current);
+				}
+			} else if (key === KEY.backspace) {
+				query = query.slice(0, -1);
+				cursor = 0;
+			} else if (!key.startsWith(KEY.escape) && key >= " ") {
+				query += key;
+				cursor = 0;
+			}
+		}
+	} finally {
+		ctx.stdin.setRaw?.(false);
+		await ctx.print("\x1b[?25h");
+	}
+}
+
+/**
+ * Asks the user to pick one of the [choices]. Terminals in raw mode get
+ * arrow key navigation with fuzzy filtering. Otherwise the choices are
+ * listed and the answer may be a number or a label.
+ */
+export async function select<T = string>(
+	ctx: Ctx,
+	message: string,
+	choices: readonly (string | Choice<T>)[],
+	options?: SelectOptions<T>,
+): Promise<Result<T, DenzaiErr>> {
+	const items = choices.map(toChoice);
+	const def = items.find((a) => a.value === options?.default);
+	if (!ctx.stdin.isTTY() || items.length === 0) {
+		return def !== undefined ? Ok(def.value) : Err(unavailable(message));
+	}
+
+	if (canReadKeys(ctx)) {
+		const picked = await pickKeys(ctx, message, items, {
+			multi: false,
+			selected: [],
+			pageSize: options?.pageSize ?? 7,
+		});
+		return picked?.[0] ? Ok(picked[0].value) : Err(cancelled(message));
+	}
+
+	await ctx.print(
+		[
+			`? ${message}`,
+			...items.map((a, i) => `  ${i + 1}) ${a.label}`),
+			"",
+		].join("\n"),
+	);
+	while (true) {
+		const hint = def !== undefined ? ` (${def.label})` : "";
+		const answer = await ask(ctx, `>${hint} `);
+		if (answer === null) {
+			return Err(cancelled(message));
+		}
+		const choice = answer.trim().length === 0
+			? def
+			: resolveChoice(answer, items);
+		if (choice) {
+			return Ok(choice.value);
+		}
+		await ctx.print(`No choice matches "${answer}"\n`);
+	}
+}
+
+/**
+ * Asks the user to pick any number of the [choices]. Terminals in raw mode
+ * toggle choices with space. Otherwise the answer is a comma separated list
+ * of numbers or labels.
+ */
+export async function multiselect<T = string>(
+	ctx: Ctx,
+	message: string,
+	choices: readonly (string | Choice<T>)[],
+	options?: MultiSelectOptions<T>,
+): Promise<Result<T[], DenzaiErr>> {
+	const items = choices.map(toChoice);
+	const defs = items.filter((a) => options?.default?.includes(a.value));
+	if (!ctx.stdin.isTTY()) {
+		return options?.default !== undefined
+			? Ok(defs.map((a) => a.value))
+			: Err(unavailable(message));
+	}
+
+	if (canReadKeys(ctx)) {
+		const picked = await pickKeys(ctx, message, items, {
+			multi: true,
+			selected: defs,
+			pageSize: options?.pageSize ?? 7,
+		});
+		return picked
+			? Ok(picked.map((a) => a.value))
+			: Err(cancelled(message));
+	}
+
+	await ctx.print(
+		[
+			`? ${message}`,
+			...items.map((a, i) => `  ${i + 1}) ${a.label}`),
+			"",
+		].join("\n"),
+	);
+	while (true) {
+		const hint = defs.length > 0
+			? ` (${defs.map((a) => a.label).join(", ")})`
+			: "";
+		const answer = await ask(ctx, `>${hint} `);
+		if (answer === null) {
+			return Err(cancelled(message));
+		}
+		if (answer.trim().length === 0) {
+			return Ok(defs.map((a) => a.value));
+		}
+		const words = answer.split(",").filter((a) => a.trim().length > 0);
+		const picked = words.map((a) => resolveChoice(a, items));
+		const missing = words.find((_, i) => picked[i] === null);
+		if (missing === undefined) {
+			// Keep the order of the choices and drop duplicates
+			return Ok(
+				items.filter((a) => picked.includes(a)).map((a) => a.value),
+			);
+		}
+		await ctx.print(`No choice matches "${missing.trim()}"\n`);
+	}
+}
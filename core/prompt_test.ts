@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import { Cmd } from "./cmd.ts";
+import { confirm, input, multiselect, password, select } from "./prompt.ts";
+import { streamStdin } from "./stdin.ts";
+import { testCmd } from "./testing.ts";
+import type { CmdApi } from "./types.ts";
+
+const remotes = ["origin", "upstream", "fork"];
+
+const wizardCmd: CmdApi = {
+	name: "wizard",
+	async do(ctx) {
+		const answers: unknown[] = [];
+		for (
+			const res of [
+				await confirm(ctx, "Delete?", { default: false }),
+				await input(ctx, "Name", {
+					validate: (a) => a.length > 0 ? null : "Name is required",
+				}),
+				await select(ctx, "Remote", remotes, { default: "origin" }),
+				await multiselect(ctx, "Remotes", remotes, { default: [] }),
+			]
+		) {
+			if (!res.success) {
+				return res.error;
+			}
+			answers.push(res.value);
+		}
+		await ctx.print(`\n${JSON.stringify(answers)}\n`);
+		return null;
+	},
+};
+
+Deno.test("should answer prompts from a script", async () => {
+	const result = await testCmd(wizardCmd, [], {
+		answers: ["yes", "", "jack", "up", "3, 1"],
+	});
+	assertEquals(result.error, null);
+	assertEquals(
+		result.stdout.trimEnd().split("\n").pop(),
+		'[true,"jack","upstream",["origin","fork"]]',
+	);
+	assertEquals(result.stdout.includes("Name is required\n"), true);
+});
+
+Deno.test("should fall back to defaults without a terminal", async () => {
+	const result = await testCmd(wizardCmd, [], { stdin: "" });
+	assertEquals(result.error?.code, "PROMPT_UNAVAILABLE");
+	assertEquals(result.exitCode, 64);
+	assertEquals(result.stdout, "");
+});
+
+Deno.test("should cancel when the script runs out", async () => {
+	const result = await testCmd(wizardCmd, [], { answers: ["y"] });
+	assertEquals(result.error?.code, "PROMPT_CANCELLED");
+});
+
+Deno.test("should pick with keys in raw mode", async () => {
+	const encoder = new TextEncoder();
+	const keys = (...keys: string[]) => {
+		const modes: boolean[] = [];
+		const stdin = streamStdin(
+			() => ReadableStream.from(keys.map((a) => encoder.encode(a))),
+			{ isTTY: () => true, setRaw: (raw) => modes.push(raw) },
+		);
+		return { stdin, modes };
+	};
+	let picked: unknown = null;
+	const cmd = new Cmd({
+		name: "pick",
+		async do(ctx) {
+			const remote = await select(ctx, "Remote", remotes);
+			const many = await multiselect(ctx, "Remotes", remotes);
+			const secret = await password(ctx, "Token");
+			picked = [remote, many, secret];
+			return null;
+		},
+	});
+	const { stdin, modes } = keys(
+		"\x1b[B",
+		"\r",
+		"f",
+		" ",
+		"\x7f",
+		" ",
+		"\r",
+		"s",
+		"x",
+		"\x7f",
+		"3",
+		"\r",
+	);
+	let out = "";
+	await cmd.runWithArgs([], {
+		stdin,
+		print: async (value) => {
+			out = `${out}${value}`;
+		},
+	});
+	assertEquals(picked, [
+		{ success: true, value: "upstream" },
+		{ success: true, value: ["origin", "fork"] },
+		{ success: true, value: "s3" },
+	]);
+	assertEquals(modes, [true, false, true, false, true, false]);
+	assertEquals(out.includes("s3"), false);
+});
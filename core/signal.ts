@@ -0,0 +1,160 @@
+import { DenzaiErr } from "./error.ts";
+import type { Flag } from "./types.ts";
+
+/**
+ * Persistent flag to add to the root command to let callers give up on a
+ * command after a duration such as `30s`, `5m` or `1h`. `ctx.signal` is
+ * aborted with a `TIMEOUT` error once it passes.
+ */
+export const timeoutFlag: Flag = {
+	name: "timeout",
+	type: "string",
+	persistent: true,
+	description: "Abort after a duration such as 500ms, 30s, 5m or 1h",
+};
+
+const UNITS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as `500ms`, `30s`, `1.5m` or `1h` into
+ * milliseconds. Plain numbers are seconds.
+ */
+export function parseDuration(value: unknown): number | null {
+	if (typeof value !== "string") {
+		return null;
+	}
+	const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value.trim());
+	if (match === null) {
+		return null;
+	}
+	return Number(match[1]) * UNITS[match[2] ?? "s"]!;
+}
+
+/**
+ * Checks the value given to [timeoutFlag]. Resolves to null when no timeout
+ * was asked for.
+ */
+export function timeoutDuration(value: unknown): number | null | DenzaiErr {
+	if (value === undefined) {
+		return null;
+	}
+	return parseDuration(value) ?? new DenzaiErr({
+		code: "INVALID_FLAG",
+		message:
+			`--${timeoutFlag.name} expects a duration such as 30s, got "${value}"`,
+		context: { flag: timeoutFlag.name, value },
+	});
+}
+
+/**
+ * Error a signal is aborted with when [timeout] passes.
+ */
+export function timeoutErr(timeout: string, ms: number): DenzaiErr {
+	return new DenzaiErr({
+		code: "TIMEOUT",
+		message: `timed out after ${timeout}`,
+		context: { timeout, ms },
+	});
+}
+
+/**
+ * The reason [signal] was aborted for as a [DenzaiErr].
+ */
+export function abortReason(signal: AbortSignal): DenzaiErr {
+	const reason = signal.reason;
+	if (reason instanceof DenzaiErr) {
+		return reason;
+	}
+	return new DenzaiErr({
+		code: "CANCELLED",
+		message: reason instanceof Error ? reason.message : "cancelled",
+		context: { reason },
+	});
+}
+
+/**
+ * Waits for [promise] to settle, giving up [grace] milliseconds after
+ * [signal] is aborted. Resolves to null when it gave up.
+ */
+export async function settleWithin<T>(
+	promise: Promise<T>,
+	signal: AbortSignal,
+	grace: number,
+): Promise<{ value: T } | null> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let onAbort = () => {};
+	const gaveUp = new Promise<null>((resolve) => {
+		onAbort = () => {
+			timer = setTimeout(() => resolve(null), grace);
+		};
+	});
+	if (signal.aborted) {
+		onAbort();
+	} else {
+		signal.addEventListener("abort", onAbort, { once: true });
+	}
+	try {
+		return await Promise.race([
+			promise.then((value) => ({ value })),
+			gaveUp,
+		]);
+	} finally {
+		clearTimeout(timer);
+		signal.removeEventListener("abort", onAbort);
+	}
+}
+
+export interface InterruptOptions {
+	/**
+	 * Called on the second signal. Defaults to `Deno.exit`
+	 */
+	exit?: (code: number) => void;
+}
+
+const SIGNAL_EXIT_CODES: Partial<Record<Deno.Signal, number>> = {
+	SIGINT: 130,
+	SIGTERM: 143,
+};
+
+/**
+ * Aborts [controller] on SIGINT or SIGTERM so that commands get a chance to
+ * stop and clean up. A second signal exits right away with 128 plus the
+ * number of the signal, such as 130 for SIGINT. Returns a function removing
+ * the listeners.
+ */
+export function listenForInterrupt(
+	controller: AbortController,
+	options?: InterruptOptions,
+): () => void {
+	const exit = options?.exit ?? ((code: number) => Deno.exit(code));
+	const signals: Deno.Signal[] = Deno.build.os === "windows"
+		? ["SIGINT", "SIGBREAK"]
+		: ["SIGINT", "SIGTERM"];
+	const listeners = signals.map((signal) => {
+		const listener = () => {
+			if (controller.signal.aborted) {
+				exit(SIGNAL_EXIT_CODES[signal] ?? 130);
+				return;
+			}
+			controller.abort(
+				new DenzaiErr({
+					code: "CANCELLED",
+					message: `interrupted by ${signal}`,
+					context: { signal },
+				}),
+			);
+		};
+		Deno.addSignalListener(signal, listener);
+		return { signal, listener };
+	});
+	return () => {
+		for (const { signal, listener } of listeners) {
+			Deno.removeSignalListener(signal, listener);
+		}
+	};
+}
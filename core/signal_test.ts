@@ -0,0 +1,190 @@
+import { assert, assertEquals } from "@std/assert";
+import { DenzaiErr } from "./error.ts";
+import {
+	listenForInterrupt,
+	parseDuration,
+	timeoutDuration,
+	timeoutFlag,
+} from "./signal.ts";
+import { testCmd } from "./testing.ts";
+import type { CmdApi } from "./types.ts";
+
+Deno.test("parseDuration", () => {
+	assertEquals(parseDuration("500ms"), 500);
+	assertEquals(parseDuration("30s"), 30_000);
+	assertEquals(parseDuration("1.5m"), 90_000);
+	assertEquals(parseDuration("1h"), 3_600_000);
+	assertEquals(parseDuration("2"), 2000);
+	assertEquals(parseDuration("soon"), null);
+	assertEquals(parseDuration("-1s"), null);
+	assertEquals(parseDuration(5), null);
+});
+
+Deno.test("timeoutDuration rejects invalid durations", () => {
+	assertEquals(timeoutDuration(undefined), null);
+	assertEquals(timeoutDuration("10ms"), 10);
+	const err = timeoutDuration("later");
+	assert(err instanceof DenzaiErr);
+	assertEquals(err.code, "INVALID_FLAG");
+});
+
+const events: string[] = [];
+
+const appCmd: CmdApi = {
+	name: "app",
+	flags: [timeoutFlag],
+	async after(ctx, err) {
+		events.push(`after ${err?.code ?? "ok"} ${ctx.signal.aborted}`);
+		return null;
+	},
+	children: [
+		{
+			name: "wait",
+			async do(ctx) {
+				await new Promise((resolve) =>
+					ctx.signal.addEventListener("abort", resolve, {
+						once: true,
+					})
+				);
+				return ctx.signal.reason;
+			},
+		},
+		{
+			name: "hang",
+			async do() {
+				return await new Promise<null>(() => {});
+			},
+		},
+		{
+			name: "linger",
+			async do(ctx) {
+				await new Promise((resolve) =>
+					ctx.signal.addEventListener("abort", resolve, {
+						once: true,
+					})
+				);
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				events.push("linger");
+				return null;
+			},
+		},
+		{
+			name: "quick",
+			async do() {
+				events.push("quick");
+				return null;
+			},
+		},
+	],
+};
+
+Deno.test("--timeout aborts ctx.signal and runs after hooks", async () => {
+	events.length = 0;
+	const res = await testCmd(appCmd, ["wait", "--timeout", "10ms"]);
+	assertEquals(res.error?.code, "TIMEOUT");
+	assertEquals(res.error?.message, "TIMEOUT: timed out after 10ms");
+	assertEquals(res.exitCode, 124);
+	assertEquals(events, ["after TIMEOUT true"]);
+});
+
+Deno.test("--timeout stops commands ignoring ctx.signal", async () => {
+	events.length = 0;
+	const res = await testCmd(appCmd, ["hang", "--timeout", "10ms"], {
+		abortGrace: 10,
+	});
+	assertEquals(res.error?.code, "TIMEOUT");
+	assertEquals(events, ["after TIMEOUT true"]);
+});
+
+Deno.test("after hooks wait for do to return after an abort", async () => {
+	events.length = 0;
+	const res = await testCmd(appCmd, ["linger", "--timeout", "10ms"]);
+	assertEquals(res.error, null);
+	assertEquals(res.exitCode, 0);
+	assertEquals(events, ["linger", "after ok true"]);
+});
+
+Deno.test("after hooks run once the grace period passes", async () => {
+	events.length = 0;
+	const res = await testCmd(appCmd, ["linger", "--timeout", "10ms"], {
+		abortGrace: 0,
+	});
+	assertEquals(res.error?.code, "TIMEOUT");
+	assertEquals(events, ["after TIMEOUT true"]);
+	await new Promise((resolve) => setTimeout(resolve, 40));
+	assertEquals(events, ["after TIMEOUT true", "linger"]);
+});
+
+Deno.test("an interrupted command succeeds when do handles it", async () => {
+	const controller = new AbortController();
+	const res = await testCmd(
+		{
+			name: "app",
+			async do() {
+				controller.abort(
+					new DenzaiErr({
+						code: "CANCELLED",
+						message: "interrupted",
+					}),
+				);
+				return null;
+			},
+		},
+		[],
+		{ signal: controller.signal },
+	);
+	assertEquals(res.error, null);
+	assertEquals(res.exitCode, 0);
+});
+
+Deno.test("--timeout must be a duration", async () => {
+	const res = await testCmd(appCmd, ["quick", "--timeout", "later"]);
+	assertEquals(res.error?.code, "INVALID_FLAG");
+});
+
+Deno.test("an aborted signal skips do", async () => {
+	events.length = 0;
+	const controller = new AbortController();
+	controller.abort(
+		new DenzaiErr({ code: "CANCELLED", message: "interrupted" }),
+	);
+	const res = await testCmd(appCmd, ["quick"], {
+		signal: controller.signal,
+	});
+	assertEquals(res.error?.code, "CANCELLED");
+	assertEquals(res.exitCode, 130);
+	assertEquals(events, ["after CANCELLED true"]);
+});
+
+Deno.test({
+	name: "listenForInterrupt aborts and exits on the second signal",
+	ignore: Deno.build.os === "windows",
+	async fn() {
+		const controller = new AbortController();
+		const exits: number[] = [];
+		const unlisten = listenForInterrupt(controller, {
+			exit: (code) => exits.push(code),
+		});
+		try {
+			// Signal listeners don't keep the event loop alive so poll
+			const until = async (done: () => boolean) => {
+				while (!done()) {
+					await new Promise((resolve) => setTimeout(resolve, 5));
+				}
+			};
+			// The test runner stops on SIGINT so only SIGTERM is sent
+			Deno.kill(Deno.pid, "SIGTERM");
+			await until(() => controller.signal.aborted);
+			const reason = controller.signal.reason;
+			assert(reason instanceof DenzaiErr);
+			assertEquals(reason.code, "CANCELLED");
+			assertEquals(exits, []);
+
+			Deno.kill(Deno.pid, "SIGTERM");
+			await until(() => exits.length > 0);
+			assertEquals(exits, [143]);
+		} finally {
+			unlisten();
+		}
+	},
+});
@@ -0,0 +1,104 @@
+import type { CmdStdin } from "./types.ts";
+
+export interface StreamStdinOptions {
+	isTTY: () => boolean;
+
+	/** Switches the terminal in and out of raw mode. Leave out if unsupported */
+	setRaw?: (raw: boolean) => void;
+}
+
+/**
+ * Builds a [CmdStdin] on top of a byte stream. [stream] is opened on the first
+ * read and shared by every read after, so lines read by one caller aren't
+ * seen by the next.
+ */
+export function streamStdin(
+	stream: () => ReadableStream<Uint8Array>,
+	options: StreamStdinOptions,
+): CmdStdin {
+	let reader: ReadableStreamDefaultReader<string> | null = null;
+	let buffer = "";
+
+	// Reads the next chunk into the buffer. False at the end of input
+	const fill = async (): Promise<boolean> => {
+		reader ??= stream().pipeThrough(new TextDecoderStream()).getReader();
+		const res = await reader.read();
+		if (res.done) {
+			return false;
+		}
+		buffer += res.value;
+		return true;
+	};
+
+	const readLine = async (): Promise<string | null> => {
+		while (true) {
+			const match = /\r?\n/.exec(buffer);
+			if (match) {
+				const line = buffer.slice(0, match.index);
+				buffer = buffer.slice(match.index + match[0].length);
+				return line;
+			}
+			if (!(await fill())) {
+				const line = buffer;
+				buffer = "";
+				return line.length > 0 ? line : null;
+			}
+		}
+	};
+
+	return {
+		isTTY: options.isTTY,
+		setRaw: options.setRaw,
+		readLine,
+		async read() {
+			if (buffer.length === 0 && !(await fill())) {
+				return null;
+			}
+			const chunk = buffer;
+			buffer = "";
+			return chunk;
+		},
+		async readAll() {
+			while (await fill()) {
+				// Keep reading
+			}
+			const all = buffer;
+			buffer = "";
+			return all;
+		},
+		async *lines() {
+			let line: string | null;
+			while ((line = await readLine()) !== null) {
+				yield line;
+			}
+		},
+	};
+}
+
+/**
+ * Input of the process.
+ */
+export function denoStdin(): CmdStdin {
+	return streamStdin(() => Deno.stdin.readable, {
+		isTTY: () => Deno.stdin.isTerminal(),
+		setRaw: (raw) => {
+			if (Deno.stdin.isTerminal()) {
+				Deno.stdin.setRaw(raw);
+			}
+		},
+	});
+}
+
+/**
+ * Input holding [text]. Useful for tests and for feeding one command into
+ * another.
+ */
+export function stringStdin(
+	text: string,
+	options?: { isTTY?: boolean },
+): CmdStdin {
+	const data = new TextEncoder().encode(text);
+	return streamStdin(() => ReadableStream.from([data]), {
+		isTTY: () => options?.isTTY ?? false,
+	});
+}
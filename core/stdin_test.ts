@@ -0,0 +1,31 @@
+import { assertEquals } from "@std/assert";
+import { streamStdin, stringStdin } from "./stdin.ts";
+
+Deno.test("should read all of the input", async () => {
+	const stdin = stringStdin("hello\nworld\n");
+	assertEquals(await stdin.readAll(), "hello\nworld\n");
+	assertEquals(stdin.isTTY(), false);
+});
+
+Deno.test("should split lines across chunks", async () => {
+	const encoder = new TextEncoder();
+	const stdin = streamStdin(
+		() =>
+			ReadableStream.from(
+				["he", "llo\nwo", "rld\n", "!"].map((a) => encoder.encode(a)),
+			),
+		{ isTTY: () => false },
+	);
+	const lines: string[] = [];
+	for await (const line of stdin.lines()) {
+		lines.push(line);
+	}
+	assertEquals(lines, ["hello", "world", "!"]);
+});
+
+Deno.test("should share the input between reads", async () => {
+	const stdin = stringStdin("one\ntwo\nthree");
+	assertEquals(await stdin.readLine(), "one");
+	assertEquals(await stdin.readAll(), "two\nthree");
+	assertEquals(await stdin.readLine(), null);
+});
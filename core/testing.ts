@@ -0,0 +1,177 @@
+import type { Backend } from "../backend/backend.ts";
+import { memoryBackend } from "../backend/memory.ts";
+import type { Cmd } from "./cmd.ts";
+import type { DenzaiErr } from "./error.ts";
+import { execMain, type RunMainOptions } from "./main.ts";
+import { stringStdin } from "./stdin.ts";
+import type { CmdApi, CmdEnv, CompShell, LogFn } from "./types.ts";
+
+export interface TestCmdOptions {
+	/** Environment seen by the command. Nothing from `Deno.env` leaks in */
+	env?: Record<string, string>;
+
+	/** Piped into the command. Defaults to an empty terminal */
+	stdin?: string;
+
+	/**
+	 * Answers to the prompts, in order. The input then acts as a terminal
+	 * without raw mode so each prompt reads one answer per line. Takes
+	 * precedence over [stdin]
+	 */
+	answers?: string[];
+
+	/** Defaults to a fresh `memoryBackend()` */
+	backend?: Backend | (() => Backend | Promise<Backend>);
+
+	/**
+	 * Exposed as `ctx.signal`. Abort it to act out an interrupt. Signals of
+	 * the process are never listened to
+	 */
+	signal?: AbortSignal;
+
+	/** Passed on to [runMain]. Defaults to 1000 */
+	abortGrace?: number;
+
+	/** Entries below are left out of `logs`. Defaults to "trace" */
+	logLevel?: RunMainOptions["logLevel"];
+
+	/** Passed on to [runMain] */
+	exitCodes?: RunMainOptions["exitCodes"];
+	errorFormat?: RunMainOptions["errorFormat"];
+}
+
+export type TestCmdResult = {
+	stdout: string;
+	stderr: string;
+	logs: Parameters<LogFn>[0][];
+	error: DenzaiErr | null;
+	exitCode: number;
+};
+
+/**
+ * Environment backed by a plain object.
+ */
+export function recordEnv(record: Record<string, string>): CmdEnv {
+	return {
+		get(key) {
+			return record[key];
+		},
+		has(key) {
+			return key in record;
+		},
+	};
+}
+
+/**
+ * Runs [cmd] the way [runMain] would and captures everything it produced.
+ *
+ * ```ts
+ * const { stdout, exitCode } = await testCmd(appCmd, ["remote", "--help"]);
+ * ```
+ */
+export async function testCmd(
+	cmd: Cmd | CmdApi,
+	args: string[],
+	options?: TestCmdOptions,
+): Promise<TestCmdResult> {
+	return await capture(cmd, args, options, false);
+}
+
+/**
+ * Completes [line] as a shell would by setting `COMP_LINE` and friends for
+ * bash, or their equivalents for zsh and fish. [line] includes the name of
+ * the program, for example `app remote a`.
+ */
+export async function testComp(
+	cmd: Cmd | CmdApi,
+	line: string,
+	options?: TestCmdOptions & { shell?: CompShell },
+): Promise<TestCmdResult> {
+	const words = line.split(/\s+/);
+	const compEnv: Record<string, string> = options?.shell === "zsh"
+		? {
+			ZSH_COMP_WORDS: words.join("\n"),
+			ZSH_COMP_CURRENT: String(words.length),
+		}
+		: options?.shell === "fish"
+		? { FISH_COMP_LINE: line }
+		: {
+			COMP_LINE: line,
+			COMP_POINT: String(line.length),
+			COMP_CWORD: String(words.length - 1),
+		};
+	return await capture(
+		cmd,
+		[],
+		{ ...options, env: { ...options?.env, ...compEnv } },
+		true,
+	);
+}
+
+async function capture(
+	cmd: Cmd | CmdApi,
+	args: string[],
+	options: TestCmdOptions | undefined,
+	detectComp: boolean,
+): Promise<TestCmdResult> {
+	let stdout = "";
+	let stderr = "";
+	const logs: TestCmdResult["logs"] = [];
+	const { error, exitCode } = await execMain(cmd, {
+		args,
+		detectComp,
+		env: recordEnv(options?.env ?? {}),
+		stdin: options?.answers !== undefined
+			? stringStdin(options.answers.map((a) => `${a}\n`).join(""), {
+				isTTY: true,
+			})
+			: options?.stdin !== undefined
+			? stringStdin(options.stdin)
+			: stringStdin("", { isTTY: true }),
+		backend: options?.backend ?? memoryBackend,
+		signal: options?.signal ?? new AbortController().signal,
+		abortGrace: options?.abortGrace,
+		exitCodes: options?.exitCodes,
+		errorFormat: options?.errorFormat,
+		logLevel: options?.logLevel ?? "trace",
+		print: async (value) => {
+			stdout = `${stdout}${value}`;
+		},
+		printErr: async (value) => {
+			stderr = `${stderr}${value}`;
+		},
+		log: async (entry) => {
+			logs.push(entry);
+		},
+	});
+	return { stdout, stderr, logs, error, exitCode };
+}
+
+/**
+ * Runs [cmd] with [testCmd] and compares its output to a snapshot. The
+ * snapshot function is passed in, typically `assertSnapshot` from
+ * `@std/testing/snapshot`, so this module doesn't depend on it.
+ *
+ * ```ts
+ * Deno.test("help", async (t) => {
+ * 	await assertCmdSnapshot(t, appCmd, ["--help"], { assertSnapshot });
+ * });
+ * ```
+ */
+export async function assertCmdSnapshot<T>(
+	t: T,
+	cmd: Cmd | CmdApi,
+	args: string[],
+	params: TestCmdOptions & {
+		assertSnapshot: (t: T, actual: unknown) => Promise<void>;
+	},
+): Promise<TestCmdResult> {
+	const { assertSnapshot, ...options } = params;
+	const result = await testCmd(cmd, args, options);
+	await assertSnapshot(t, {
+		stdout: result.stdout,
+		stderr: result.stderr,
+		exitCode: result.exitCode,
+	});
+	return result;
+}
@@ -0,0 +1,98 @@
+import { assertEquals } from "@std/assert";
+import { DenzaiErr } from "./error.ts";
+import { assertCmdSnapshot, testCmd, testComp } from "./testing.ts";
+import type { CmdApi } from "./types.ts";
+
+const appCmd: CmdApi = {
+	name: "app",
+	children: [
+		{
+			name: "greet",
+			short: "Say hello",
+			schema: { maxArgs: 1 },
+			async do(ctx) {
+				await ctx.print(
+					`hello ${
+						ctx.cmdArgs[0] ?? ctx.env.get("USER") ?? "nobody"
+					}\n`,
+				);
+				return null;
+			},
+		},
+		{
+			name: "grab",
+			short: "Read a file",
+			async do(ctx) {
+				const backend = await ctx.backend();
+				const res = await backend.data.read("missing.txt");
+				return res.success ? null : new DenzaiErr({
+					code: "FILE_NOT_FOUND",
+					message: "missing.txt",
+				});
+			},
+		},
+	],
+};
+
+Deno.test("should capture the output of a command", async () => {
+	const result = await testCmd(appCmd, ["greet"], { env: { USER: "jack" } });
+	assertEquals(result.stdout, "hello jack\n");
+	assertEquals(result.stderr, "");
+	assertEquals(result.error, null);
+	assertEquals(result.exitCode, 0);
+	assertEquals(result.logs.length > 0, true);
+
+	assertEquals((await testCmd(appCmd, ["greet"])).stdout, "hello nobody\n");
+});
+
+Deno.test("should capture errors and exit codes", async () => {
+	const result = await testCmd(appCmd, ["grab"]);
+	assertEquals(result.error?.code, "FILE_NOT_FOUND");
+	assertEquals(result.exitCode, 66);
+	assertEquals(
+		result.stderr.startsWith("FILE_NOT_FOUND: missing.txt\n"),
+		true,
+	);
+});
+
+Deno.test("should complete a simulated command line", async () => {
+	assertEquals((await testComp(appCmd, "app gr")).stdout, "greet grab");
+	assertEquals(
+		(await testComp(appCmd, "app gr", { shell: "fish" })).stdout,
+		"greet\tSay hello\ngrab\tRead a file",
+	);
+});
+
+Deno.test("should pass the output to the snapshot function", async () => {
+	let snapshot: unknown = null;
+	await assertCmdSnapshot("t", appCmd, ["greet", "jill"], {
+		assertSnapshot: async (t, actual) => {
+			assertEquals(t, "t");
+			snapshot = actual;
+		},
+	});
+	assertEquals(snapshot, { stdout: "hello jill\n", stderr: "", exitCode: 0 });
+});
+
+Deno.test("should feed stdin to the command", async () => {
+	const cmd: CmdApi = {
+		name: "count",
+		async do(ctx) {
+			if (ctx.stdin.isTTY()) {
+				await ctx.print("no input\n");
+				return null;
+			}
+			let n = 0;
+			for await (const line of ctx.stdin.lines()) {
+				n += line.length > 0 ? 1 : 0;
+			}
+			await ctx.print(`${n} lines\n`);
+			return null;
+		},
+	};
+	assertEquals((await testCmd(cmd, [])).stdout, "no input\n");
+	assertEquals(
+		(await testCmd(cmd, [], { stdin: "a\nb\r\n\nc" })).stdout,
+		"3 lines\n",
+	);
+});
@@ -1,5 +1,35 @@
+import type { Backend } from "../backend/backend.ts";
 import type { Cmd } from "./cmd.ts";
 import type { DenzaiErr } from "./error.ts";
+import type { OutputOptions } from "./output.ts";
+
+/**
+ * The kind of value a positional argument holds.
+ */
+export type ParamType = "string" | "int" | "float" | "path" | "enum";
+
+/**
+ * Describes a named positional argument.
+ */
+export interface Param {
+	/** Name used in the usage line and as the key on `ctx.params` */
+	name: string;
+
+	/** Defaults to "string" */
+	type?: ParamType;
+
+	/** Allowed values for "enum" params. Also used for completion */
+	choices?: readonly string[];
+
+	/** Short description (<50 chars) */
+	description?: string;
+
+	/** The argument may be left out. Only trailing params may be optional */
+	optional?: boolean;
+
+	/** Collects the rest of the arguments. Only the last param may be variadic */
+	variadic?: boolean;
+}
 
 /**
  * Defines the structure for a schema that validates argument constraints.
@@ -9,26 +39,139 @@ export type Schema = {
 	maxArgs?: number;
 	exact?: number;
 	regxArgs?: RegExp;
+
+	/** Named positional arguments, in order */
+	params?: readonly Param[];
+};
+
+type ParamTypeMap = {
+	string: string;
+	int: number;
+	float: number;
+	path: string;
+	enum: string;
 };
 
+/**
+ * The value type of a single [Param].
+ */
+export type ParamValue<P extends Param> = P extends
+	{ choices: readonly (infer C)[] } ? C
+	: P extends { type: infer T extends keyof ParamTypeMap } ? ParamTypeMap[T]
+	: string;
+
+type ParamField<P extends Param> = P extends { variadic: true }
+	? ParamValue<P>[]
+	: P extends { optional: true } ? ParamValue<P> | undefined
+	: ParamValue<P>;
+
+/**
+ * The type of `ctx.params` inferred from a [Schema]. Use `Cmd.makeApi` to
+ * keep the literal types of the params.
+ */
+export type Params<S extends Schema = Schema> = S extends
+	{ params: readonly (infer P extends Param)[] }
+	? { [K in P as K["name"]]: ParamField<K> }
+	: Record<string, unknown>;
+
+/**
+ * The kind of value a flag holds. Boolean flags never take a value, list flags
+ * accumulate every occurrence.
+ */
+export type FlagType = "boolean" | "string" | "number" | "list";
+
+/**
+ * The parsed value of a single flag.
+ */
+export type FlagValue = boolean | string | number | string[];
+
+/**
+ * Parsed flags keyed by the long name of the flag.
+ */
+export type Flags = Record<string, FlagValue>;
+
+/**
+ * Declares an option accepted by a command. Flags follow GNU conventions:
+ * `--name`, `--name=value`, `--name value`, `-n value`, `-nvalue` and bundled
+ * short booleans such as `-abc`. `--` ends option parsing.
+ */
+export interface Flag {
+	/** Long name. Used as `--name` and as the key on `ctx.flags` */
+	name: string;
+
+	/** Single character short name. Used as `-n` */
+	short?: string;
+
+	/** Defaults to "boolean" */
+	type?: FlagType;
+
+	/** Value used when the flag isn't given */
+	default?: FlagValue;
+
+	/** Fail when the flag isn't given */
+	required?: boolean;
+
+	/**
+	 * Accept the flag on every command below the one declaring it, for
+	 * example `--verbose` or `--config` on the root command.
+	 */
+	persistent?: boolean;
+
+	/** Short description (<50 chars) */
+	description?: string;
+}
+
 /**
  * CmdApi describes the commands. Use [Cmd] to build up a command tree.
  */
-export interface CmdApi {
+export interface CmdApi<S extends Schema = Schema> {
 	/** command name */
 	name: string;
 
 	/** Shareable variables */
 	vars?: Var[];
 
+	/** Alternative names the command may be invoked with */
 	alias?: string[];
 
+	/**
+	 * Allow the command to be invoked by a unique prefix of its name. Defaults
+	 * to true. Turn it off for destructive commands.
+	 */
+	prefixMatch?: boolean;
+
+	/** Offer the aliases of the children during completion */
+	completeAliases?: boolean;
+
+	/** Options accepted by the command */
+	flags?: Flag[];
+
 	// Work for the command itself
 	/** Initialize the command */
 	init?(ctx: Ctx, args: string[]): Promise<DenzaiErr | null>;
 
+	/**
+	 * Runs before `do` on every command along the path, root first. Returning
+	 * an error skips the remaining `before` hooks and `do`.
+	 */
+	before?(ctx: Ctx, args: string[]): Promise<DenzaiErr | null>;
+
 	/** Actually do the work */
-	do?(ctx: Ctx, args: string[]): Promise<DenzaiErr | null>;
+	do?(ctx: Ctx<Params<S>>, args: string[]): Promise<DenzaiErr | null>;
+
+	/**
+	 * Receives the error returned by `do` or a `before` hook. Runs on every
+	 * command along the path, leaf first, until one returns null. Return a
+	 * different error to translate it or null to recover.
+	 */
+	onError?(ctx: Ctx, err: DenzaiErr): Promise<DenzaiErr | null>;
+
+	/**
+	 * Runs after `do`, leaf first, on every command whose `before` ran. Always
+	 * runs, even when `do` failed. [err] is the error left after `onError`.
+	 * An error returned here is only reported when there isn't one already.
+	 */
+	after?(ctx: Ctx, err: DenzaiErr | null): Promise<DenzaiErr | null>;
 
 	// Delegated work
 	children?: CmdApi[];
@@ -42,12 +185,29 @@ export interface CmdApi {
 	/** Long description */
 	long?: string;
 
-	schema?: Schema;
+	schema?: S;
 
 	completer?: Completer;
+
+	/**
+	 * Leave the command out of help, docs and completion. It may still be
+	 * invoked.
+	 */
 	hidden?: boolean;
+
+	/**
+	 * Run executables named `<name>-<subcommand>` found on `$PATH` for
+	 * subcommands that don't exist, as git does. Only read on the root.
+	 * Defaults to true
+	 */
+	plugins?: boolean;
 }
 
+/**
+ * Severity of a log entry.
+ */
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error";
+
 /**
  * Represents a logging function that handles log messages with a specified level and optional context.
  *
@@ -61,11 +221,48 @@ export interface CmdApi {
 export type LogFn = (args: {
 	message: string;
 	context?: unknown;
-	level: "debug" | "info" | "warn" | "trace" | "error";
+	level: LogLevel;
 }) => Promise<void>;
 
+/**
+ * Read access to environment variables. `Deno.env` satisfies it.
+ */
+export interface CmdEnv {
+	get(key: string): string | undefined;
+	has(key: string): boolean;
+}
+
+/**
+ * Input of a command, typically piped data.
+ */
+export interface CmdStdin {
+	/** Whether the input is a terminal rather than a pipe or a file */
+	isTTY(): boolean;
+
+	/** Reads everything up to the end of the input */
+	readAll(): Promise<string>;
+
+	/** Iterates over the lines of the input without the line endings */
+	lines(): AsyncIterable<string>;
+
+	/** Reads the next line without the line ending. Null at the end */
+	readLine(): Promise<string | null>;
+
+	/**
+	 * Reads whatever input is available. In raw mode this is a single key
+	 * press. Null at the end
+	 */
+	read(): Promise<string | null>;
+
+	/**
+	 * Switches the terminal in and out of raw mode, where keys are read as
+	 * they are pressed and not echoed. Absent when unsupported.
+	 */
+	setRaw?(raw: boolean): void;
+}
+
 // deno-lint-ignore no-explicit-any
-export interface Ctx {
+export interface Ctx<P = Record<string, unknown>> {
 	/**
 	 * Indicates whether the current context is a completion context.
 	 */
@@ -101,6 +298,18 @@ export interface Ctx {
 	 */
 	cmdArgs: string[];
 
+	/**
+	 * Flags parsed along the command path. Flags that weren't given hold
+	 * their default value.
+	 */
+	flags: Flags;
+
+	/**
+	 * Named positional arguments parsed from `cmdArgs` using the params of
+	 * the command [Schema]
+	 */
+	params: P;
+
 	/**
 	 * Send output. Typically to stdout.
 	 */
@@ -114,9 +323,57 @@ export interface Ctx {
 	printErr(value: string): Promise<void>;
 
 	/**
-	 * Log for debugging purposes
+	 * Log for debugging purposes. Entries below the log level are dropped
 	 */
 	log: LogFn;
+
+	/**
+	 * Whether entries of [level] are logged. Check it before building an
+	 * expensive context.
+	 */
+	logEnabled(level: LogLevel): boolean;
+
+	/**
+	 * Prints [records] as a table, or as JSON, YAML or NDJSON when asked for
+	 * with the `--output` flag. Errors when the flag has an unknown format.
+	 */
+	output<T extends Record<string, unknown>>(
+		records: readonly T[],
+		options?: OutputOptions<T>,
+	): Promise<DenzaiErr | null>;
+
+	/**
+	 * Input of the command. Typically stdin.
+	 */
+	stdin: CmdStdin;
+
+	/**
+	 * Environment variables. Use instead of `Deno.env` so tests can fake them
+	 */
+	env: CmdEnv;
+
+	/**
+	 * Columns of the terminal output is printed to. Null when `print` is
+	 * replaced or stdout isn't a terminal, so that captured output doesn't
+	 * depend on the terminal it was captured in.
+	 */
+	width: number | null;
+
+	/**
+	 * Storage for the command. Created on first use from
+	 * `RunCmdOptions.backend` and shared for the rest of the run.
+	 */
+	backend(): Promise<Backend>;
+
+	/**
+	 * Aborted when the program is interrupted or the `--timeout` given with
+	 * [timeoutFlag] passes. The reason is a `CANCELLED` or `TIMEOUT`
+	 * [DenzaiErr]. `do` gets a grace period to return, after which the
+	 * command fails with it even when `do` ignores the signal and the `after`
+	 * hooks run while `do` may still be going. Pass it on to long running
+	 * work, such as `Store.withSignal`, so that it stops early.
+	 */
+	signal: AbortSignal;
 }
 
 /** Shared data between command instances */
@@ -168,7 +425,26 @@ export interface CompArgs {
 	args: string[];
 }
 
+/**
+ * A single completion candidate. Shells that support it show the description
+ * next to the value.
+ */
+export interface CompItem {
+	value: string;
+	description?: string;
+}
+
+/**
+ * Shells with a completion protocol
+ */
+export type CompShell = "bash" | "zsh" | "fish";
+
+/**
+ * Provides completion candidates. Plain strings are accepted where no
+ * description is needed. Subcommand names returned as strings are described
+ * by their `short` text.
+ */
 export interface Completer {
-	complete?(ctx: Ctx, args: CompArgs): Promise<string[]>;
-	cmdComplete?(ctx: Ctx, args: CompArgs): Promise<string[]>;
+	complete?(ctx: Ctx, args: CompArgs): Promise<(string | CompItem)[]>;
+	cmdComplete?(ctx: Ctx, args: CompArgs): Promise<(string | CompItem)[]>;
 }
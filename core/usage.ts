@@ -0,0 +1,35 @@
+import type { Cmd } from "./cmd.ts";
+import { flagScope } from "./flags.ts";
+import { paramUsage } from "./params.ts";
+
+/**
+ * Builds the usage line for the last command in [path]. For example
+ * `usage: git remote add [flags] <name> <url>`. Named params are used when
+ * the schema has them.
+ */
+export function usageLine(path: Cmd[]): string {
+	const cmd = path[path.length - 1];
+	if (cmd === undefined) {
+		return "usage:";
+	}
+	const parts = ["usage:", ...path.map((a) => a.name)];
+	if (flagScope(path).length > 0) {
+		parts.push("[flags]");
+	}
+	if (cmd.children.length > 0) {
+		parts.push("<command>");
+	}
+	const { exact, minArgs, maxArgs, params } = cmd.schema;
+	if (params && params.length > 0) {
+		parts.push(...params.map(paramUsage));
+		return parts.join(" ");
+	}
+	const min = exact ?? minArgs ?? 0;
+	const max = exact ?? maxArgs;
+	if (min > 0) {
+		parts.push("<args>");
+	} else if (max !== 0 && (max !== undefined || minArgs !== undefined)) {
+		parts.push("[<args>]");
+	}
+	return parts.join(" ");
+}
@@ -26,7 +26,8 @@ export type StoreErrCode =
 	| "CONCURRENT_MODIFICATION"
 	| "QUOTA_EXCEEDED"
 	| "INSUFFICIENT_SPACE"
-	| "INTERNAL";
+	| "INTERNAL"
+	| "ABORTED";
 
 export class StoreErr extends BaseErr<StoreErrCode> {
 	override desc(): string {
@@ -78,6 +79,8 @@ export class StoreErr extends BaseErr<StoreErrCode> {
 				return "There is insufficient space available.";
 			case "INTERNAL":
 				return "An internal error has occurred.";
+			case "ABORTED":
+				return "The operation was aborted before it finished.";
 			case "UNKNOWN":
 				return "An unknown error has occurred.";
 			case "PARSE":
@@ -3,6 +3,7 @@ import { FakeTime } from "@std/testing/time";
 import { BaseErr, omit, Result } from "../utils/mod.ts";
 import { memoryStore } from "./memory_store.ts";
 import { StoreErr } from "./errors.ts";
+import { Store } from "./store.ts";
 
 Deno.test("should be able to re read contents of recently written file", async () => {
 	using fakeTimer = new FakeTime();
@@ -222,3 +223,19 @@ Deno.test("Should get the basename", async () => {
 	const store = memoryStore();
 	assertEquals(store.basename(), "/");
 });
+
+Deno.test("should stop operations once the signal is aborted", async () => {
+	const controller = new AbortController();
+	const storage = memoryStore().withSignal(controller.signal);
+	assertEquals(await storage.write("/a/b", "content"), null);
+
+	controller.abort();
+	assertEquals((await storage.write("/a/c", "content"))?.code, "ABORTED");
+	const res = await storage.child("a").read("b");
+	assert(Result.isErr(res));
+	assertEquals(res.error.code, "ABORTED");
+
+	const target = memoryStore();
+	const err = await Store.overwrite({ source: storage, target });
+	assertEquals(err?.code, "ABORTED");
+});
@@ -1,5 +1,5 @@
-import { BaseErr, type Future, Path, Result } from "../utils/mod.ts";
-import type { StoreErr } from "./errors.ts";
+import { BaseErr, Future, Path, Result } from "../utils/mod.ts";
+import { StoreErr } from "./errors.ts";
 
 /**
  * Represents the timing information for a store node, including various
@@ -125,9 +125,56 @@ export type StoreContext = {
 export class Store {
 	private context: StoreContext;
 	private api: StoreApi;
-	constructor(context: StoreContext, api: StoreApi) {
+	private signal: AbortSignal | null;
+	constructor(context: StoreContext, api: StoreApi, signal?: AbortSignal) {
 		this.context = context;
 		this.api = api;
+		this.signal = signal ?? null;
+	}
+
+	/**
+	 * Creates a store sharing the same data whose operations stop once
+	 * [signal] is aborted. Operations started after that, or still in flight,
+	 * fail with an `ABORTED` error. Child stores keep the signal.
+	 */
+	withSignal(signal: AbortSignal): Store {
+		return new Store(this.context, this.api, signal);
+	}
+
+	/**
+	 * Runs [f] unless the signal is aborted and stops waiting on it once it
+	 * is. [wrap] turns the abort error into the return type of the operation.
+	 */
+	private async guard<T>(
+		op: string,
+		path: string,
+		f: () => Future.Future<T>,
+		wrap: (error: StoreErr) => T,
+	): Future.Future<T> {
+		const signal = this.signal;
+		if (signal === null) {
+			return f();
+		}
+		const res = await Future.tryCatch(
+			f,
+			(error) => {
+				if (!signal.aborted) {
+					throw error;
+				}
+				return new StoreErr({
+					code: "ABORTED",
+					message: `Aborted ${op} of "${path}"`,
+					context: {
+						op,
+						path,
+						...this.context,
+						reason: String(signal.reason),
+					},
+				});
+			},
+			{ signal },
+		);
+		return Result.isOk(res) ? res.value : wrap(res.error);
 	}
 
 	/**
@@ -188,7 +235,12 @@ export class Store {
 	 * Reads the contents of a file at the specified [path].
 	 */
 	async read(path: string): Future.FutureResult<string, StoreErr> {
-		return this.api.read(this.context, path);
+		return this.guard(
+			"read",
+			path,
+			() => this.api.read(this.context, path),
+			Result.err,
+		);
 	}
 
 	/**
@@ -198,10 +250,16 @@ export class Store {
 		path: string,
 		options?: { relative: boolean; recursive: boolean },
 	): Future.FutureResult<string[], StoreErr> {
-		return this.api.readdir(this.context, path, {
-			recursive: options?.recursive ?? false,
-			relative: options?.relative ?? true,
-		});
+		return this.guard(
+			"readdir",
+			path,
+			() =>
+				this.api.readdir(this.context, path, {
+					recursive: options?.recursive ?? false,
+					relative: options?.relative ?? true,
+				}),
+			Result.err,
+		);
 	}
 
 	/**
@@ -218,9 +276,15 @@ export class Store {
 		content: string,
 		options?: { recurive: boolean },
 	): Future.Future<StoreErr | null> {
-		return this.api.write(this.context, path, content, {
-			recurive: options?.recurive ?? true,
-		});
+		return this.guard(
+			"write",
+			path,
+			() =>
+				this.api.write(this.context, path, content, {
+					recurive: options?.recurive ?? true,
+				}),
+			(error) => error,
+		);
 	}
 
 	/**
@@ -232,9 +296,15 @@ export class Store {
 		path: string,
 		options?: { recurive: boolean },
 	): Future.Future<StoreErr | null> {
-		return this.api.mkdir(this.context, path, {
-			recursive: options?.recurive ?? true,
-		});
+		return this.guard(
+			"mkdir",
+			path,
+			() =>
+				this.api.mkdir(this.context, path, {
+					recursive: options?.recurive ?? true,
+				}),
+			(error) => error,
+		);
 	}
 
 	/**
@@ -246,9 +316,15 @@ export class Store {
 		path: string,
 		options: { recursive?: boolean },
 	): Future.Future<StoreErr | null> {
-		return this.api.rm(this.context, path, {
-			recursive: options.recursive ?? true,
-		});
+		return this.guard(
+			"rm",
+			path,
+			() =>
+				this.api.rm(this.context, path, {
+					recursive: options.recursive ?? true,
+				}),
+			(error) => error,
+		);
 	}
 
 	/**
@@ -260,9 +336,15 @@ export class Store {
 		path: string,
 		options: { recursive?: boolean },
 	): Future.Future<StoreErr | null> {
-		return this.api.rmdir(this.context, path, {
-			recursive: options.recursive ?? true,
-		});
+		return this.guard(
+			"rmdir",
+			path,
+			() =>
+				this.api.rmdir(this.context, path, {
+					recursive: options.recursive ?? true,
+				}),
+			(error) => error,
+		);
 	}
 
 	/**
@@ -270,7 +352,12 @@ export class Store {
 	 * method calls the [stats] function in the API.
 	 */
 	async stats(path: string): Future.FutureResult<StoreNodeStats, StoreErr> {
-		return this.api.stats(this.context, path);
+		return this.guard(
+			"stats",
+			path,
+			() => this.api.stats(this.context, path),
+			Result.err,
+		);
 	}
 
 	/**
@@ -283,7 +370,12 @@ export class Store {
 		path: string,
 		stats: StoreNodeTime,
 	): Future.Future<StoreErr | null> {
-		return this.api.utimes(this.context, path, stats);
+		return this.guard(
+			"utimes",
+			path,
+			() => this.api.utimes(this.context, path, stats),
+			(error) => error,
+		);
 	}
 
 	/**
@@ -306,14 +398,15 @@ export class Store {
 			pwd,
 			jail: this.context.jail,
 		};
-		return new Store(context, this.api);
+		return new Store(context, this.api, this.signal ?? undefined);
 	}
 
 	/**
 	 * Copies all contents from the [source] store to the [target] store. Reads
 	 * the directory contents and handles both files and directories
 	 * appropriately, ensuring that the target store reflects the structure and
-	 * data of the source store.
+	 * data of the source store. Stops at the first `ABORTED` error of either
+	 * store.
 	 */
 	static async overwrite(
 		args: { source: Store; target: Store },
@@ -325,23 +418,38 @@ export class Store {
 		}
 		for (const path of pathList.value) {
 			const stats = await source.stats(path);
+			if (Result.isErr(stats) && stats.error.code === "ABORTED") {
+				return stats.error;
+			}
 			BaseErr.invariant(
 				Result.isOk(stats),
 				"Expect readdir to only list items that exist",
 			);
 			if (stats.value.isDirectory()) {
-				await target.mkdir(path);
-				await Store.overwrite({
+				const mkdirErr = await target.mkdir(path);
+				if (mkdirErr?.code === "ABORTED") {
+					return mkdirErr;
+				}
+				const err = await Store.overwrite({
 					source: source.child(path),
 					target: target.child(path),
 				});
+				if (err?.code === "ABORTED") {
+					return err;
+				}
 			} else if (stats.value.isFile()) {
 				const content = await source.read(path);
+				if (Result.isErr(content) && content.error.code === "ABORTED") {
+					return content.error;
+				}
 				BaseErr.invariant(
 					Result.isOk(content),
 					"Expect readdir to list a valid file",
 				);
-				await target.write(path, content.value);
+				const err = await target.write(path, content.value);
+				if (err?.code === "ABORTED") {
+					return err;
+				}
 			} else {
 				throw new Error("Unhandled node type");
 			}
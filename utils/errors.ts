@@ -1,5 +1,6 @@
 import { absurd } from "./funcs.ts";
-import { Json, Result } from "./mod.ts";
+import * as Json from "./json.ts";
+import * as Result from "./result.ts";
 function getCallerInfo(n: number = 2): string | null {
 	const err = new Error();
 	const stackLines = err.stack?.split("\n") || [];
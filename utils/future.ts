@@ -125,12 +125,44 @@ export const bindTo: {
 
 export const assign = bind;
 
+export type TryCatchOptions = {
+	/**
+	 * Stops waiting on the future once aborted. The abort reason is passed
+	 * to `onErr`.
+	 */
+	signal?: AbortSignal;
+};
+
+/**
+ * Rejects with the reason of [signal] as soon as it is aborted, otherwise
+ * settles the same as [ma]. The work behind [ma] is not stopped unless it
+ * is handed the signal as well.
+ */
+export function abortable<T>(ma: Future<T>, signal: AbortSignal): Future<T> {
+	if (signal.aborted) {
+		return Promise.reject(signal.reason);
+	}
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener("abort", onAbort, { once: true });
+		ma.then(resolve, reject).finally(() =>
+			signal.removeEventListener("abort", onAbort)
+		);
+	});
+}
+
 export async function tryCatch<T, E>(
-	f: () => Future<T>,
+	f: (signal?: AbortSignal) => Future<T>,
 	onErr: (error: unknown) => E,
+	options?: TryCatchOptions,
 ): FutureResult<T, E> {
+	const signal = options?.signal;
 	try {
-		return of(R.ok(await f()));
+		if (signal === undefined) {
+			return of(R.ok(await f()));
+		}
+		signal.throwIfAborted();
+		return of(R.ok(await abortable(f(signal), signal)));
 	} catch (e) {
 		return of(R.err(onErr(e)));
 	}
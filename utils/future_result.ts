@@ -3,7 +3,6 @@ import * as R from "./result.ts";
 import * as O from "./optional.ts";
 import { dual } from "./funcs.ts";
 import { invariant } from "./errors.ts";
-import { type Future, Result } from "./mod.ts";
 import type { Predicate } from "./traits.ts";
 
 export type FutureResult<T, E> = F.Future<R.Result<T, E>>;
@@ -19,23 +18,20 @@ export function err<E>(error: E): FutureResult<never, E> {
 export const tryCatch: {
 	<E>(
 		onErr: (e: unknown) => E,
-	): <T>(f: () => F.Future<T>) => FutureResult<T, E>;
+		options?: F.TryCatchOptions,
+	): <T>(f: (signal?: AbortSignal) => F.Future<T>) => FutureResult<T, E>;
 	<T, E>(
-		f: () => F.Future<T>,
+		f: (signal?: AbortSignal) => F.Future<T>,
 		onError: (e: unknown) => E,
+		options?: F.TryCatchOptions,
 	): FutureResult<T, E>;
 } = dual(
-	2,
-	async <T, E>(
-		f: () => F.Future<T>,
+	(args) => typeof args[1] === "function",
+	<T, E>(
+		f: (signal?: AbortSignal) => F.Future<T>,
 		onErr: (e: unknown) => E,
-	): FutureResult<T, E> => {
-		try {
-			return ok(await f());
-		} catch (e) {
-			return err(onErr(e));
-		}
-	},
+		options?: F.TryCatchOptions,
+	): FutureResult<T, E> => F.tryCatch(f, onErr, options),
 );
 
 export const fromOptional: {
@@ -84,9 +80,9 @@ export const filter: {
 	): FutureResult<A, E1 | E2> => {
 		const res = await ma;
 		if (res.success && pred(res.value)) {
-			return Result.ok(res.value);
+			return R.ok(res.value);
 		}
-		return Result.err(onErr());
+		return R.err(onErr());
 	},
 );
 
@@ -94,14 +90,14 @@ export const match: {
 	<T1, E1, E2, T2>(options: {
 		readonly onOk: (ok: T1) => T2;
 		readonly onErr: (err: E1) => E2;
-	}): (ma: FutureResult<T1, E1>) => Future.Future<T2 | E2>;
+	}): (ma: FutureResult<T1, E1>) => F.Future<T2 | E2>;
 	<T1, E1, E2, T2>(
 		ma: FutureResult<T1, E1>,
 		options: {
 			readonly onOk: (ok: T1) => T2;
 			readonly onErr: (err: E1) => E2;
 		},
-	): Future.Future<T2 | E2>;
+	): F.Future<T2 | E2>;
 } = dual(
 	2,
 	async <T1, E1, T2, E2>(
@@ -1,5 +1,14 @@
 import { assertEquals } from "@std/assert";
-import { assign, bind, bindTo, chain, err, map, ok } from "./future_result.ts";
+import {
+	assign,
+	bind,
+	bindTo,
+	chain,
+	err,
+	map,
+	ok,
+	tryCatch,
+} from "./future_result.ts";
 import { pipe } from "./funcs.ts";
 import { Result } from "./mod.ts";
 
@@ -41,3 +50,26 @@ Deno.test("FutureResult do notation", async () => {
 		await err("invalid value" as const),
 	);
 });
+
+Deno.test("FutureResult.tryCatch", async () => {
+	const onErr = (e: unknown) => `caught ${e}`;
+	assertEquals(await tryCatch(() => Promise.resolve(1), onErr), Result.ok(1));
+	assertEquals(
+		await tryCatch(() => Promise.reject("boom"), onErr),
+		Result.err("caught boom"),
+	);
+	assertEquals(
+		await pipe(() => Promise.reject("boom"), tryCatch(onErr)),
+		Result.err("caught boom"),
+	);
+
+	const controller = new AbortController();
+	controller.abort("stop");
+	assertEquals(
+		await pipe(
+			() => Promise.resolve(1),
+			tryCatch(onErr, { signal: controller.signal }),
+		),
+		Result.err("caught stop"),
+	);
+});
@@ -8,8 +8,10 @@ import {
 	chain,
 	map,
 	of,
+	tryCatch,
 } from "./future.ts";
 import { pipe } from "./funcs.ts";
+import * as R from "./result.ts";
 
 Deno.test("Future.map", async () => {
 	assertEquals(await map(of(1), (a) => a + a), 2);
@@ -40,3 +42,42 @@ Deno.test("Future do notation", async () => {
 		{ a: 1, b: "b", d: [1, "b"] },
 	);
 });
+
+Deno.test("Future tryCatch", async () => {
+	assertEquals(
+		await tryCatch(() => of(1), (e) => e),
+		R.ok(1),
+	);
+	assertEquals(
+		await tryCatch(() => Promise.reject("boom"), (e) => e),
+		R.err("boom"),
+	);
+});
+
+Deno.test("Future tryCatch stops waiting once aborted", async () => {
+	const controller = new AbortController();
+	let received: AbortSignal | undefined;
+	const pending = tryCatch(
+		(signal) => {
+			received = signal;
+			return new Promise<number>(() => {});
+		},
+		(e) => e,
+		{ signal: controller.signal },
+	);
+	controller.abort("stop");
+	assertEquals(await pending, R.err("stop"));
+	assertEquals(received, controller.signal);
+
+	let called = false;
+	const res = await tryCatch(
+		() => {
+			called = true;
+			return of(1);
+		},
+		(e) => e,
+		{ signal: controller.signal },
+	);
+	assertEquals(res, R.err("stop"));
+	assertEquals(called, false);
+});
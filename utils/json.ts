@@ -1,5 +1,5 @@
 import * as StdJson from "@std/jsonc";
-import { Result } from "./mod.ts";
+import * as Result from "./result.ts";
 import { stringify as stringifyDate } from "./traits.ts";
 import { BaseErr } from "./errors.ts";
 